@@ -105,6 +105,125 @@ CREATE TABLE IF NOT EXISTS staff_users (
   INDEX idx_active (active)
 );
 
+-- Signed-in staff sessions; each holds the hash of its current refresh token, rotated on every refresh
+CREATE TABLE IF NOT EXISTS staff_sessions (
+  id int AUTO_INCREMENT PRIMARY KEY,
+  user_id int NOT NULL,
+  refresh_token_hash char(64) NOT NULL, -- SHA-256 hex of the refresh token secret
+  previous_token_hash char(64) NULL, -- Hash replaced by the last rotation, tolerated briefly for racing refreshes
+  rotated_at timestamp NULL,
+  user_agent varchar(255),
+  created_at timestamp DEFAULT CURRENT_TIMESTAMP,
+  last_used_at timestamp NULL,
+  expires_at timestamp NOT NULL,
+  revoked_at timestamp NULL,
+  INDEX idx_user_active (user_id, revoked_at),
+  FOREIGN KEY (user_id) REFERENCES staff_users(id) ON DELETE CASCADE
+);
+
+-- Upload jobs table so job progress survives server restarts
+CREATE TABLE IF NOT EXISTS upload_jobs (
+  id char(36) PRIMARY KEY,
+  user_id int NULL,
+  parent_job_id char(36) NULL, -- Job whose failed rows were corrected and re-submitted
+  file_name varchar(255),
+  file_path varchar(500),
+  options json,
+  status varchar(20) NOT NULL DEFAULT 'pending',
+  progress json,
+  failed_csv_path varchar(500),
+  last_committed_row int NOT NULL DEFAULT 0,
+  checkpoint json,
+  started_at timestamp DEFAULT CURRENT_TIMESTAMP,
+  completed_at timestamp NULL,
+  created_at timestamp DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamp DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_user (user_id),
+  INDEX idx_status (status),
+  INDEX idx_parent (parent_job_id),
+  FOREIGN KEY (user_id) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+-- Column mapping profiles: translate faculty-specific CSV headers to the canonical template
+CREATE TABLE IF NOT EXISTS column_mapping_profiles (
+  id int AUTO_INCREMENT PRIMARY KEY,
+  name varchar(100) NOT NULL UNIQUE,
+  description varchar(255),
+  created_by int NULL,
+  created_at timestamp DEFAULT CURRENT_TIMESTAMP,
+  updated_at timestamp DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (created_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS column_mapping_entries (
+  id int AUTO_INCREMENT PRIMARY KEY,
+  profile_id int NOT NULL,
+  source_header varchar(100) NOT NULL,
+  canonical_field varchar(50) NOT NULL,
+  UNIQUE KEY uniq_profile_header (profile_id, source_header),
+  FOREIGN KEY (profile_id) REFERENCES column_mapping_profiles(id) ON DELETE CASCADE
+);
+
+-- Failed rows of each upload job, kept after the failed-records CSV is deleted (FILE_RETENTION_DAYS)
+CREATE TABLE IF NOT EXISTS upload_job_errors (
+  id bigint AUTO_INCREMENT PRIMARY KEY,
+  job_id char(36) NOT NULL,
+  row_no int NOT NULL,
+  matric_no varchar(50),
+  reason varchar(500) NOT NULL,
+  code varchar(30) NOT NULL DEFAULT 'PROCESSING_ERROR',
+  field varchar(50),
+  value varchar(255),
+  row_data json,
+  created_at timestamp DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_job_row (job_id, row_no),
+  INDEX idx_job_code (job_id, code),
+  FOREIGN KEY (job_id) REFERENCES upload_jobs(id) ON DELETE CASCADE
+);
+
+-- Further problems of failed rows that had more than one; the first is in upload_job_errors
+CREATE TABLE IF NOT EXISTS upload_job_error_causes (
+  id bigint AUTO_INCREMENT PRIMARY KEY,
+  job_id char(36) NOT NULL,
+  row_no int NOT NULL,
+  code varchar(30) NOT NULL,
+  field varchar(50),
+  value varchar(255),
+  INDEX idx_job_row (job_id, row_no),
+  FOREIGN KEY (job_id) REFERENCES upload_jobs(id) ON DELETE CASCADE
+);
+
+-- Change journal: one entry per student inserted or updated by an upload job
+CREATE TABLE IF NOT EXISTS upload_change_log (
+  id bigint AUTO_INCREMENT PRIMARY KEY,
+  job_id char(36) NOT NULL,
+  user_id int NULL,
+  matric_no varchar(50) NOT NULL,
+  serial_id int NOT NULL,
+  action varchar(10) NOT NULL,
+  changes json NOT NULL,
+  rolled_back_at timestamp NULL,
+  created_at timestamp DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_job (job_id),
+  INDEX idx_serial (serial_id),
+  FOREIGN KEY (job_id) REFERENCES upload_jobs(id) ON DELETE CASCADE,
+  FOREIGN KEY (user_id) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
+-- Known misspellings of lookup values, checked when an exact lookup misses
+-- target_id points at the lookup table's key: dlc_marital_status.status_serial,
+-- dlc_course_of_study.serialid, dlc_state.state_id, dlc_lga.lga_id or dlc_session.sessionID
+CREATE TABLE IF NOT EXISTS lookup_aliases (
+  id int AUTO_INCREMENT PRIMARY KEY,
+  lookup_type varchar(20) NOT NULL,
+  alias varchar(255) NOT NULL,
+  target_id int NOT NULL,
+  created_by int NULL,
+  created_at timestamp DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_type_alias (lookup_type, alias),
+  FOREIGN KEY (created_by) REFERENCES staff_users(id) ON DELETE SET NULL
+);
+
 -- Add foreign key constraints to dlc_student
 ALTER TABLE dlc_student 
 ADD CONSTRAINT fk_student_marital 
@@ -267,6 +386,13 @@ WHERE TABLE_SCHEMA = DATABASE()
         'dlc_course_of_study', 
         'dlc_state', 
         'dlc_lga', 
-        'staff_users'
+        'staff_users',
+        'staff_sessions',
+        'upload_jobs',
+        'column_mapping_profiles',
+        'column_mapping_entries',
+        'upload_job_errors',
+        'upload_change_log',
+        'lookup_aliases'
     )
 ORDER BY TABLE_NAME;
\ No newline at end of file
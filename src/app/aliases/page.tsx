@@ -0,0 +1,350 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { hasPermission } from "@/lib/permissions";
+import { authFetch, isSignedIn } from "@/lib/api-client";
+
+interface LookupAlias {
+  id: number;
+  lookupType: string;
+  alias: string;
+  targetId: number;
+  targetName: string | null;
+  createdAt: string;
+}
+
+interface LookupTypeOption {
+  type: string;
+  label: string;
+}
+
+interface LookupTarget {
+  id: number;
+  name: string;
+}
+
+export default function AliasesPage() {
+  const router = useRouter();
+  const [aliases, setAliases] = useState<LookupAlias[]>([]);
+  const [lookupTypes, setLookupTypes] = useState<LookupTypeOption[]>([]);
+  const [targets, setTargets] = useState<LookupTarget[]>([]);
+  const [lookupType, setLookupType] = useState("course_of_study");
+  const [alias, setAlias] = useState("");
+  const [targetId, setTargetId] = useState("");
+  const [filter, setFilter] = useState("");
+  const [canDelete, setCanDelete] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>("");
+  const [notice, setNotice] = useState<string>("");
+
+  const loadAliases = useCallback(async () => {
+    if (!isSignedIn()) {
+      router.push("/login");
+      return;
+    }
+
+    try {
+      const response = await authFetch(`/api/lookup-aliases?type=${lookupType}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load aliases");
+        return;
+      }
+
+      setAliases(data.aliases);
+      setLookupTypes(data.lookupTypes);
+      setTargets(data.targets);
+    } catch {
+      setError("Network error while loading aliases");
+    } finally {
+      setLoading(false);
+    }
+  }, [router, lookupType]);
+
+  useEffect(() => {
+    try {
+      const user = JSON.parse(localStorage.getItem("user") || "null");
+      setCanDelete(hasPermission(user?.role, "aliases:delete"));
+    } catch {
+      setCanDelete(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAliases();
+  }, [loadAliases]);
+
+  const handleTypeChange = (type: string) => {
+    setLookupType(type);
+    setTargetId("");
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+
+    try {
+      const response = await authFetch("/api/lookup-aliases", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          lookupType,
+          alias,
+          targetId: Number(targetId),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to save alias");
+        return;
+      }
+
+      setAlias("");
+      setTargetId("");
+      await loadAliases();
+    } catch {
+      setError("Network error while saving alias");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (aliasId: number) => {
+    if (!confirm("Delete this alias?")) return;
+
+    try {
+      const response = await authFetch(`/api/lookup-aliases?id=${aliasId}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || "Failed to delete alias");
+        return;
+      }
+
+      setAliases((current) => current.filter((entry) => entry.id !== aliasId));
+    } catch {
+      setError("Network error while deleting alias");
+    }
+  };
+
+  // Running jobs keep reference tables in memory; reload them after editing lookup tables directly
+  const handleReloadLookups = async () => {
+    setError("");
+    setNotice("");
+
+    try {
+      const response = await authFetch("/api/lookup-cache", {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to reload lookup data");
+        return;
+      }
+
+      setNotice(data.message);
+    } catch {
+      setError("Network error while reloading lookup data");
+    }
+  };
+
+  const typeLabel = (type: string) =>
+    lookupTypes.find((option) => option.type === type)?.label || type;
+
+  const visibleAliases = aliases.filter(
+    (entry) =>
+      !filter ||
+      entry.alias.toLowerCase().includes(filter.toLowerCase()) ||
+      entry.targetName?.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">
+                Lookup Aliases
+              </h1>
+              <p className="text-sm text-gray-600">
+                Alternative spellings accepted for lookup values
+              </p>
+            </div>
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleReloadLookups}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Reload Lookup Data
+              </button>
+              <Link
+                href="/dashboard"
+                className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* New Alias */}
+          <form
+            onSubmit={handleSave}
+            className="bg-white shadow rounded-lg p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+          >
+            <label className="text-sm text-gray-700">
+              Lookup
+              <select
+                value={lookupType}
+                onChange={(e) => handleTypeChange(e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {lookupTypes.map((option) => (
+                  <option key={option.type} value={option.type}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Spelling in uploads
+              <input
+                type="text"
+                value={alias}
+                onChange={(e) => setAlias(e.target.value)}
+                placeholder="e.g. Pol. Sci"
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Means
+              <select
+                value={targetId}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="">Select a value</option>
+                {targets.map((target) => (
+                  <option key={target.id} value={target.id}>
+                    {target.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={saving || !alias.trim() || !targetId}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Add Alias"}
+            </button>
+          </form>
+
+          {notice && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded text-sm">
+              {notice}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Alias Table */}
+          <div className="bg-white shadow rounded-lg overflow-x-auto">
+            <div className="p-4 border-b border-gray-200">
+              <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter aliases"
+                className="block w-full md:w-1/3 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </div>
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Lookup
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Alias
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Means
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Added
+                  </th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                      Loading aliases...
+                    </td>
+                  </tr>
+                ) : visibleAliases.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="px-3 py-6 text-center text-gray-500">
+                      No aliases yet
+                    </td>
+                  </tr>
+                ) : (
+                  visibleAliases.map((entry) => (
+                    <tr key={entry.id} className="border-t border-gray-200">
+                      <td className="px-3 py-2 text-gray-700">
+                        {typeLabel(entry.lookupType)}
+                      </td>
+                      <td className="px-3 py-2 text-gray-900">{entry.alias}</td>
+                      <td className="px-3 py-2 text-gray-900">
+                        {entry.targetName ?? (
+                          <span className="text-red-600">
+                            Missing value {entry.targetId}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {new Date(entry.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {canDelete && (
+                          <button
+                            onClick={() => handleDelete(entry.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
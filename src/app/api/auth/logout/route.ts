@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/auth';
+import { REFRESH_COOKIE, clearAuthCookies, hasValidCsrfToken } from '@/lib/auth-cookies';
+
+// Holding the refresh token is enough to end its session, so logout works after the access token expires
+export async function POST(request: NextRequest) {
+  try {
+    // Cookie sessions post no body
+    const body = await request.json().catch(() => ({}));
+    const fromCookie = !body.refreshToken;
+    const refreshToken = body.refreshToken || request.cookies.get(REFRESH_COOKIE)?.value;
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Refresh token is required' },
+        { status: 400 }
+      );
+    }
+
+    if (fromCookie && !hasValidCsrfToken(request)) {
+      return NextResponse.json(
+        { error: 'Invalid CSRF token' },
+        { status: 403 }
+      );
+    }
+
+    const revoked = await AuthService.logout(refreshToken);
+
+    const response = NextResponse.json({ success: true, revoked });
+    if (fromCookie) {
+      clearAuthCookies(response);
+    }
+    return response;
+
+  } catch (error) {
+    console.error('Logout API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
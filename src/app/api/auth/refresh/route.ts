@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService } from '@/lib/auth';
+import { CSRF_COOKIE, REFRESH_COOKIE, clearAuthCookies, hasValidCsrfToken, setAuthCookies } from '@/lib/auth-cookies';
+
+// Not behind withAuth: the access token has usually expired by the time this is called
+export async function POST(request: NextRequest) {
+  try {
+    // Cookie sessions post no body
+    const body = await request.json().catch(() => ({}));
+    const fromCookie = !body.refreshToken;
+    const refreshToken = body.refreshToken || request.cookies.get(REFRESH_COOKIE)?.value;
+
+    if (!refreshToken) {
+      return NextResponse.json(
+        { error: 'Refresh token is required' },
+        { status: 400 }
+      );
+    }
+
+    if (fromCookie && !hasValidCsrfToken(request)) {
+      return NextResponse.json(
+        { error: 'Invalid CSRF token' },
+        { status: 403 }
+      );
+    }
+
+    const result = await AuthService.refresh(refreshToken);
+
+    // The request that won the race has set the new cookies (or returned the new tokens); keep them
+    if (result.raced) {
+      return NextResponse.json(
+        { error: result.message, raced: true },
+        { status: 409 }
+      );
+    }
+
+    if (!result.success) {
+      const response = NextResponse.json(
+        { error: result.message || 'Session expired' },
+        { status: 401 }
+      );
+      if (fromCookie) {
+        clearAuthCookies(response);
+      }
+      return response;
+    }
+
+    if (fromCookie) {
+      const response = NextResponse.json({
+        success: true,
+        user: result.user,
+        expiresIn: AuthService.TOKEN_EXPIRY_SECONDS
+      });
+      setAuthCookies(response, {
+        token: result.token!,
+        refreshToken: result.refreshToken!,
+        accessMaxAge: AuthService.TOKEN_EXPIRY_SECONDS
+      }, request.cookies.get(CSRF_COOKIE)?.value);
+      return response;
+    }
+
+    return NextResponse.json({
+      success: true,
+      token: result.token,
+      refreshToken: result.refreshToken,
+      user: result.user
+    });
+
+  } catch (error) {
+    console.error('Token refresh API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
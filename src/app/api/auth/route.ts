@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService } from '@/lib/auth';
+import { setAuthCookies } from '@/lib/auth-cookies';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { email, password } = body;
+    const { email, password, cookie } = body;
 
     // Validate input
     if (!email || !password) {
@@ -15,7 +16,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Attempt login
-    const result = await AuthService.login(email, password);
+    const result = await AuthService.login(email, password, request.headers.get('user-agent'));
 
     if (!result.success) {
       return NextResponse.json(
@@ -24,10 +25,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Return success with token and user info
+    // Cookie sign-in keeps both tokens out of reach of page scripts
+    if (cookie === true) {
+      const response = NextResponse.json({
+        success: true,
+        user: result.user,
+        expiresIn: AuthService.TOKEN_EXPIRY_SECONDS
+      });
+      setAuthCookies(response, {
+        token: result.token!,
+        refreshToken: result.refreshToken!,
+        accessMaxAge: AuthService.TOKEN_EXPIRY_SECONDS
+      });
+      return response;
+    }
+
+    // Return success with tokens and user info
     return NextResponse.json({
       success: true,
       token: result.token,
+      refreshToken: result.refreshToken,
       user: result.user
     });
 
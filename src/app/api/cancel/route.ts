@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { JobManager } from '@/lib/job-manager';
-import { withAuth } from '@/lib/auth';
+import { withAuth, User } from '@/lib/auth';
 
-export const POST = withAuth(async (request: NextRequest) => {
+export const POST = withAuth(async (request: NextRequest, user: User) => {
   try {
     const body = await request.json();
     const { jobId } = body;
@@ -14,8 +14,9 @@ export const POST = withAuth(async (request: NextRequest) => {
       );
     }
 
-    // Attempt to cancel the job
-    const cancelled = JobManager.cancelJob(jobId);
+    // Attempt to cancel the job, which must be the user's own unless they may act on every job
+    const job = await JobManager.getJobForUser(jobId, user);
+    const cancelled = !!job && JobManager.cancelJob(jobId);
 
     if (!cancelled) {
       return NextResponse.json(
@@ -36,4 +37,4 @@ export const POST = withAuth(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}, { permissions: ['jobs:cancel'] });
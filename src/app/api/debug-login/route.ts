@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { executeQuery } from '@/lib/database';
+import { withAuth } from '@/lib/auth';
 import bcrypt from 'bcryptjs';
 
-export async function POST(request: NextRequest) {
+// Lets an admin check why another staff account cannot sign in
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const { email, password } = body;
@@ -83,4 +85,4 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}, { permissions: ['users:manage'] });
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChangeLogService } from '@/lib/change-log';
+import { JobManager } from '@/lib/job-manager';
+import { withAuth, User } from '@/lib/auth';
+
+export const GET = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('jobId');
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Missing jobId parameter' },
+        { status: 400 }
+      );
+    }
+
+    if (!await JobManager.getJobForUser(jobId, user)) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const entries = await ChangeLogService.getJobChanges(jobId);
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: 'No applied changes recorded for this job' },
+        { status: 404 }
+      );
+    }
+
+    const csv = ChangeLogService.toCsv(entries);
+    const fileName = `applied_changes_${jobId}.csv`;
+
+    // Return file as download
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Download changes API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to download applied changes' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:view'] });
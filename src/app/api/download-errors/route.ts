@@ -2,9 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { JobManager } from '@/lib/job-manager';
-import { withAuth } from '@/lib/auth';
+import { withAuth, User } from '@/lib/auth';
 
-export const GET = withAuth(async (request: NextRequest) => {
+export const GET = withAuth(async (request: NextRequest, user: User) => {
   try {
     const { searchParams } = new URL(request.url);
     const jobId = searchParams.get('jobId');
@@ -16,9 +16,10 @@ export const GET = withAuth(async (request: NextRequest) => {
       );
     }
 
-    // Get failed CSV path from job manager
-    const failedCsvPath = JobManager.getFailedCsvPath(jobId);
-    
+    // The file holds students' personal data, so only the job's owner or a user allowed every job may download it
+    const job = await JobManager.getJobForUser(jobId, user);
+    const failedCsvPath = job?.failedCsvPath;
+
     if (!failedCsvPath || !existsSync(failedCsvPath)) {
       return NextResponse.json(
         { error: 'No failed records file found for this job' },
@@ -46,4 +47,4 @@ export const GET = withAuth(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}, { permissions: ['jobs:view'] });
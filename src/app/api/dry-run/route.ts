@@ -1,13 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Papa from 'papaparse';
-import { withAuth } from '@/lib/auth';
-import { CsvStudentRecord } from '@/lib/types';
+import { withAuth, User } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+import { saveUploadedFile } from '@/lib/uploads';
+import { CsvStudentRecord, SpreadsheetCellValue } from '@/lib/types';
+import { ColumnMappingService, REQUIRED_FIELDS } from '@/lib/column-mapping';
+import { SpreadsheetReader } from '@/lib/spreadsheet-reader';
+import { LookupCorrection, LookupSuggestionService } from '@/lib/lookup-suggestions';
 
-export const POST = withAuth(async (request: NextRequest) => {
+/**
+ * Start a background job that runs every row through CsvProcessor in validate-only mode:
+ * full validation and database lookups, no writes. Like an upload, it reports through the
+ * progress stream and the job summary; failed records can be downloaded, and unrecognised
+ * course, state and LGA names are served with their nearest fuzzy matches at /api/jobs/<id>/lookup-suggestions.
+ */
+async function startFullValidation(file: File, user: User, options: Record<string, unknown>) {
+  const filePath = await saveUploadedFile(file);
+  const job = await JobManager.createJob({
+    ...options,
+    validateOnly: true
+  }, {
+    userId: user.id,
+    fileName: file.name,
+    filePath
+  });
+
+  JobManager.startJob(job, 2000); // Same delay as uploads, so the UI can connect to the progress stream
+
+  return NextResponse.json({
+    success: true,
+    mode: 'full',
+    jobId: job.id,
+    message: 'Validation started',
+    fileInfo: {
+      name: file.name,
+      size: file.size,
+      type: file.type
+    }
+  });
+}
+
+export const POST = withAuth(async (request: NextRequest, user: User) => {
   try {
     const formData = await request.formData();
     const file = formData.get('csvFile') as File;
     const previewRows = parseInt(formData.get('previewRows') as string) || 10;
+    const mappingProfileId = parseInt(formData.get('mappingProfileId') as string) || undefined;
+    const sheetName = (formData.get('sheetName') as string) || undefined;
+    const mode = formData.get('mode') === 'full' ? 'full' : 'preview';
+    const lookupCorrectionsJson = formData.get('lookupCorrections') as string | null;
 
     // Validate file
     if (!file) {
@@ -18,9 +59,9 @@ export const POST = withAuth(async (request: NextRequest) => {
     }
 
     // Check file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!SpreadsheetReader.isSupportedFile(file.name)) {
       return NextResponse.json(
-        { error: 'Only CSV files are allowed' },
+        { error: 'Only CSV, XLSX and ODS files are allowed' },
         { status: 400 }
       );
     }
@@ -34,50 +75,114 @@ export const POST = withAuth(async (request: NextRequest) => {
       );
     }
 
-    // Parse CSV content
-    const text = await file.text();
-    const parseResult = Papa.parse<CsvStudentRecord>(text, {
-      header: true,
-      skipEmptyLines: true,
-      preview: previewRows + 1 // +1 to check if there are more rows
-    });
+    // Load the selected column mapping profile
+    let columnMapping;
+    try {
+      columnMapping = await ColumnMappingService.getMapping(mappingProfileId);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid column mapping profile' },
+        { status: 400 }
+      );
+    }
 
-    if (parseResult.errors.length > 0) {
-      return NextResponse.json({
-        error: 'CSV parsing errors',
-        details: parseResult.errors.map(err => ({
-          row: err.row,
-          type: err.type,
-          message: err.message
-        }))
-      }, { status: 400 });
+    if (mode === 'full') {
+      // Suggestions accepted so far are applied, so the report shows what the upload will do
+      let lookupCorrections: LookupCorrection[];
+      try {
+        lookupCorrections = await LookupSuggestionService.parseCorrections(lookupCorrectionsJson);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Invalid lookup corrections' },
+          { status: 400 }
+        );
+      }
+
+      return startFullValidation(file, user, { mappingProfileId, sheetName, lookupCorrections });
     }
 
-    // Validate required headers
-    const requiredFields = [
-      'Matric Number', 'Last Name', 'First Name', 'Gender', 
-      'DoB', 'Year Of Entry', 'Department'
-    ];
-    
-    const headers = parseResult.meta.fields || [];
-    const missingFields = requiredFields.filter(field => 
-      !headers.some(header => header.toLowerCase() === field.toLowerCase())
-    );
+    let headers: string[];
+    let previewData: Array<{ rowNumber: number; data: Record<string, SpreadsheetCellValue> }>;
+    let totalRows: number;
+    let sheets: string[] | undefined;
+    let selectedSheet: string | undefined;
+
+    if (SpreadsheetReader.isWorkbookFile(file.name)) {
+      // Read workbook, keeping typed date cells
+      let sheet;
+      try {
+        const workbook = SpreadsheetReader.readWorkbook(Buffer.from(await file.arrayBuffer()));
+        sheets = workbook.SheetNames;
+        sheet = SpreadsheetReader.openSheet(workbook, sheetName);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Failed to read workbook' },
+          { status: 400 }
+        );
+      }
+
+      selectedSheet = sheet.sheetName;
+      headers = sheet.headers;
+      totalRows = sheet.totalRows;
+      previewData = [];
+      for (const row of sheet.rows) {
+        if (previewData.length >= previewRows) {
+          break;
+        }
+        previewData.push(row);
+      }
+    } else {
+      // Parse CSV content
+      const text = await file.text();
+      const parseResult = Papa.parse<Record<string, string>>(text, {
+        header: true,
+        skipEmptyLines: true,
+        preview: previewRows + 1 // +1 to check if there are more rows
+      });
+
+      if (parseResult.errors.length > 0) {
+        return NextResponse.json({
+          error: 'CSV parsing errors',
+          details: parseResult.errors.map(err => ({
+            row: err.row,
+            type: err.type,
+            message: err.message
+          }))
+        }, { status: 400 });
+      }
+
+      headers = parseResult.meta.fields || [];
+      // Numbered like the upload job numbers them, counting the header as row 1
+      previewData = parseResult.data.slice(0, previewRows).map((data, index) => ({ rowNumber: index + 2, data }));
+
+      // Count total rows in file
+      const fullParseResult = Papa.parse(text, {
+        header: true,
+        skipEmptyLines: true
+      });
+      totalRows = fullParseResult.data.length;
+    }
+
+    // Validate required headers after applying the column mapping
+    const missingFields = ColumnMappingService.findMissingFields(headers, columnMapping);
 
     if (missingFields.length > 0) {
       return NextResponse.json({
         error: 'Missing required CSV headers',
-        missingFields
+        missingFields,
+        sheets,
+        selectedSheet
       }, { status: 400 });
     }
 
     // Basic validation on preview rows
-    const validationResults = parseResult.data.slice(0, previewRows).map((row, index) => {
+    const validationResults = previewData.map(({ rowNumber, data: rawRow }) => {
+      const row: CsvStudentRecord = ColumnMappingService.applyMapping(rawRow, columnMapping);
       const errors: string[] = [];
       
       // Check required fields
-      requiredFields.forEach(field => {
-        const value = row[field as keyof CsvStudentRecord];
+      REQUIRED_FIELDS.forEach(field => {
+        const value = row[field];
         if (!value || !value.toString().trim()) {
           errors.push(`Missing ${field}`);
         }
@@ -96,20 +201,13 @@ export const POST = withAuth(async (request: NextRequest) => {
       }
 
       return {
-        rowNumber: index + 1,
+        rowNumber,
         data: row,
         errors,
         isValid: errors.length === 0
       };
     });
 
-    // Count total rows in file
-    const fullParseResult = Papa.parse(text, {
-      header: true,
-      skipEmptyLines: true
-    });
-    
-    const totalRows = fullParseResult.data.length;
     const validRows = validationResults.filter(r => r.isValid).length;
     const invalidRows = validationResults.filter(r => !r.isValid).length;
 
@@ -124,6 +222,8 @@ export const POST = withAuth(async (request: NextRequest) => {
       },
       headers,
       missingFields,
+      sheets,
+      selectedSheet,
       preview: validationResults,
       fileInfo: {
         name: file.name,
@@ -139,4 +239,4 @@ export const POST = withAuth(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}, { permissions: ['upload:dry-run'] });
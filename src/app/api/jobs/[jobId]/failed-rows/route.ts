@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+import { JobStore } from '@/lib/job-store';
+
+export const GET = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ jobId: string }>) => {
+  try {
+    const { jobId } = await params;
+
+    const job = await JobManager.getJobForUser(jobId, user);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const { rows, total } = await JobStore.getFailedRows(jobId);
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      rows,
+      total,
+      truncated: rows.length < total
+    });
+
+  } catch (error) {
+    console.error('Failed rows API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load failed rows' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:view'] });
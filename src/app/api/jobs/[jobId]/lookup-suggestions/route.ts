@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+
+export const GET = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ jobId: string }>) => {
+  try {
+    const { jobId } = await params;
+
+    const job = await JobManager.getJobForUser(jobId, user);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      suggestions: await JobManager.getLookupSuggestions(job)
+    });
+
+  } catch (error) {
+    console.error('Lookup suggestions API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load lookup suggestions' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:view'] });
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+import { ColumnMappingService } from '@/lib/column-mapping';
+
+export const POST = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ jobId: string }>) => {
+  try {
+    const { jobId } = await params;
+
+    const body = await request.json();
+    const { rows } = body;
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return NextResponse.json(
+        { error: 'Select at least one row to re-submit' },
+        { status: 400 }
+      );
+    }
+
+    if (!await JobManager.getJobForUser(jobId, user)) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const records = rows.map((row: Record<string, unknown>) => ColumnMappingService.toCanonicalRecord(row));
+    const resubmit = await JobManager.resubmitFailedRows(jobId, records, user.id);
+
+    if (!resubmit.success || !resubmit.job) {
+      return NextResponse.json(
+        { error: resubmit.message || 'Rows could not be re-submitted' },
+        { status: resubmit.message === 'Job not found' ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId: resubmit.job.id,
+      parentJobId: jobId,
+      message: `Re-submitted ${records.length} corrected rows`
+    });
+
+  } catch (error) {
+    console.error('Resubmit API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-submit rows' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:resubmit', 'upload:commit'] });
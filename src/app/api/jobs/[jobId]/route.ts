@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+import { JobStore } from '@/lib/job-store';
+
+export const GET = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ jobId: string }>) => {
+  try {
+    const { jobId } = await params;
+
+    const job = await JobManager.getJobForUser(jobId, user);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const startedAt = new Date(job.progress.startTime || job.createdAt);
+    const endedAt = job.progress.endTime ? new Date(job.progress.endTime) : null;
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        parentJobId: job.parentJobId,
+        fileName: job.fileName,
+        status: job.status,
+        options: job.options,
+        progress: job.progress,
+        timing: {
+          startedAt,
+          completedAt: endedAt,
+          durationSeconds: Math.round(((endedAt ?? new Date()).getTime() - startedAt.getTime()) / 1000)
+        },
+        errors: await JobStore.getErrorSummary(job.id)
+      }
+    });
+
+  } catch (error) {
+    console.error('Job detail API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load job' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:view'] });
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+import { ColumnMappingService } from '@/lib/column-mapping';
+
+export const POST = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ jobId: string }>) => {
+  try {
+    const { jobId } = await params;
+
+    const job = await JobManager.getJobForUser(jobId, user);
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { row } = body;
+
+    if (!row || typeof row !== 'object') {
+      return NextResponse.json(
+        { error: 'Missing row in request body' },
+        { status: 400 }
+      );
+    }
+
+    const error = await JobManager.validateRow(job, ColumnMappingService.toCanonicalRecord(row));
+
+    return NextResponse.json({
+      success: true,
+      valid: !error,
+      error: error
+        ? { reason: error.reason, code: error.code, field: error.field ?? null, value: error.value ?? null }
+        : null
+    });
+
+  } catch (error) {
+    console.error('Row validation API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate row' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['upload:dry-run'] });
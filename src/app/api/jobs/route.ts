@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+import { JobStore } from '@/lib/job-store';
+import { hasPermission } from '@/lib/permissions';
+import { JobStatus } from '@/lib/types';
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'completed', 'failed', 'cancelled', 'interrupted', 'rolled_back'];
+const MAX_PAGE_SIZE = 100;
+
+export const GET = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    // Users who may not see every job only list their own
+    const canSeeAllJobs = hasPermission(user.role, 'jobs:all');
+    const userId = canSeeAllJobs ? parseInt(searchParams.get('userId') || '') || undefined : user.id;
+    const status = searchParams.get('status') || undefined;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '') || 25, MAX_PAGE_SIZE);
+    const offset = Math.max(parseInt(searchParams.get('offset') || '') || 0, 0);
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status: ${status}` },
+        { status: 400 }
+      );
+    }
+
+    const fromDate = from ? new Date(from) : undefined;
+    // A plain date includes the whole of that day
+    const toDate = to ? new Date(to) : undefined;
+    if (to && toDate && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+      toDate.setDate(toDate.getDate() + 1);
+    }
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json(
+        { error: 'Invalid date range' },
+        { status: 400 }
+      );
+    }
+
+    const { jobs, total } = await JobManager.listJobs({
+      userId,
+      status: status as JobStatus | undefined,
+      from: fromDate,
+      to: toDate,
+      limit,
+      offset
+    });
+
+    return NextResponse.json({
+      success: true,
+      total,
+      limit,
+      offset,
+      statuses: JOB_STATUSES,
+      uploaders: canSeeAllJobs
+        ? await JobStore.listUploaders()
+        : [{ id: user.id, name: user.name, email: user.email }],
+      jobs: jobs.map(job => ({
+        id: job.id,
+        fileName: job.fileName,
+        status: job.status,
+        uploader: job.userId ? { id: job.userId, name: job.userName, email: job.userEmail } : null,
+        options: job.options,
+        counts: {
+          total: job.progress.totalRecords,
+          processed: job.progress.processedRecords,
+          inserted: job.progress.insertedRecords,
+          updated: job.progress.updatedRecords,
+          unchanged: job.progress.unchangedRecords,
+          duplicateSkipped: job.progress.duplicateSkippedRecords,
+          failed: job.progress.failedRecordsCount
+        },
+        message: job.progress.message,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt ?? null,
+        durationSeconds: job.completedAt
+          ? Math.round((job.completedAt.getTime() - job.startedAt.getTime()) / 1000)
+          : null
+      }))
+    });
+
+  } catch (error) {
+    console.error('List jobs API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load jobs' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:view'] });
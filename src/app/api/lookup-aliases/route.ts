@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User } from '@/lib/auth';
+import { LOOKUP_TABLES, LOOKUP_TYPES, LookupAliasService } from '@/lib/lookup-aliases';
+import { LookupType } from '@/lib/types';
+
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    // Values of one lookup table are only loaded when asked for, e.g. to pick an alias target
+    const type = new URL(request.url).searchParams.get('type') as LookupType | null;
+    if (type && !LOOKUP_TABLES[type]) {
+      return NextResponse.json(
+        { error: `Unknown lookup type: ${type}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      aliases: await LookupAliasService.listAliases(),
+      lookupTypes: LOOKUP_TYPES.map(lookupType => ({ type: lookupType, label: LOOKUP_TABLES[lookupType].label })),
+      targets: type ? await LookupAliasService.listTargets(type) : undefined
+    });
+
+  } catch (error) {
+    console.error('List lookup aliases error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load lookup aliases' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const body = await request.json();
+    const { lookupType, alias, targetId } = body;
+
+    if (!lookupType || !alias || targetId === undefined) {
+      return NextResponse.json(
+        { error: 'Lookup type, alias and target are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await LookupAliasService.createAlias(lookupType, alias, Number(targetId), user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message || 'Failed to save alias' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      aliasId: result.aliasId
+    });
+
+  } catch (error) {
+    console.error('Create lookup alias error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save alias' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['aliases:create'] });
+
+export const DELETE = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const id = parseInt(new URL(request.url).searchParams.get('id') || '');
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Missing alias id' },
+        { status: 400 }
+      );
+    }
+
+    if (!await LookupAliasService.deleteAlias(id)) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`🗑️ Lookup alias ${id} deleted by ${user.email}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete lookup alias error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alias' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['aliases:delete'] });
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User } from '@/lib/auth';
+import { LookupCache } from '@/lib/lookup-cache';
+
+// Reload the reference tables held by running jobs, e.g. after a course or LGA was added
+export const POST = withAuth(async (_request: NextRequest, user: User) => {
+  try {
+    console.log(`🧹 Lookup cache invalidation requested by ${user.email}`);
+    LookupCache.invalidate();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Lookup caches will reload before their next lookup'
+    });
+
+  } catch (error) {
+    console.error('Lookup cache API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to invalidate lookup caches' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['lookups:reload'] });
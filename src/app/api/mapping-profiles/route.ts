@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User } from '@/lib/auth';
+import { CANONICAL_FIELDS, ColumnMappingService, REQUIRED_FIELDS } from '@/lib/column-mapping';
+
+export const GET = withAuth(async () => {
+  try {
+    const profiles = await ColumnMappingService.listProfiles();
+
+    return NextResponse.json({
+      success: true,
+      profiles,
+      canonicalFields: CANONICAL_FIELDS,
+      requiredFields: REQUIRED_FIELDS
+    });
+
+  } catch (error) {
+    console.error('List mapping profiles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load mapping profiles' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const body = await request.json();
+    const { name, description, entries } = body;
+
+    if (!name || !Array.isArray(entries)) {
+      return NextResponse.json(
+        { error: 'Profile name and entries are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await ColumnMappingService.createProfile(name, description || null, entries, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message || 'Failed to create mapping profile' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      profileId: result.profileId
+    });
+
+  } catch (error) {
+    console.error('Create mapping profile error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create mapping profile' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['mappings:manage'] });
@@ -1,4 +1,6 @@
 import { NextRequest } from 'next/server';
+import { AuthService } from '@/lib/auth';
+import { AUTH_COOKIE } from '@/lib/auth-cookies';
 import { JobManager } from '@/lib/job-manager';
 
 export async function GET(request: NextRequest) {
@@ -12,6 +14,22 @@ export async function GET(request: NextRequest) {
     return new Response('Missing jobId parameter', { status: 400 });
   }
 
+  // Bearer-token clients pass a stream token, issued by POST /api/progress/token only to the job's owner
+  // or a user allowed every job; cookie sessions are sent by EventSource itself
+  const streamToken = searchParams.get('token');
+  const cookieToken = request.cookies.get(AUTH_COOKIE)?.value;
+  const user = streamToken
+    ? await AuthService.verifyStreamToken(streamToken, jobId)
+    : cookieToken ? await AuthService.verifyToken(cookieToken) : null;
+  if (!user) {
+    console.log(`❌ Missing or invalid credentials for job ${jobId}`);
+    return new Response('Invalid or expired stream token', { status: 401 });
+  }
+
+  if (!streamToken && !await JobManager.getJobForUser(jobId, user)) {
+    return new Response('Job not found', { status: 404 });
+  }
+
   // Create a readable stream for SSE
   const stream = new ReadableStream({
     start(controller) {
@@ -29,8 +47,26 @@ export async function GET(request: NextRequest) {
       let retryCount = 0;
       const maxRetries = 10; // Allow up to 10 retries (20 seconds)
       
-      const intervalId = setInterval(() => {
-        const job = JobManager.getJob(jobId);
+      let closed = false;
+      const closeStream = () => {
+        if (!closed) {
+          closed = true;
+          clearInterval(intervalId);
+          controller.close();
+        }
+      };
+
+      const intervalId = setInterval(async () => {
+        let job;
+        try {
+          job = await JobManager.getJob(jobId);
+        } catch (error) {
+          console.error(`Failed to load job ${jobId}:`, error);
+        }
+
+        if (closed) {
+          return;
+        }
         
         if (!job) {
           retryCount++;
@@ -42,8 +78,7 @@ export async function GET(request: NextRequest) {
               message: 'Job not found or expired' 
             })}\n\n`;
             controller.enqueue(encoder.encode(errorData));
-            controller.close();
-            clearInterval(intervalId);
+            closeStream();
             return;
           }
           
@@ -64,7 +99,8 @@ export async function GET(request: NextRequest) {
         // Send progress update
         const progressData = `data: ${JSON.stringify({ 
           type: 'progress', 
-          ...progress 
+          ...progress,
+          status: job.status
         })}\n\n`;
         controller.enqueue(encoder.encode(progressData));
 
@@ -72,19 +108,16 @@ export async function GET(request: NextRequest) {
         if (progress.isComplete) {
           const completeData = `data: ${JSON.stringify({ 
             type: 'complete', 
-            ...progress 
+            ...progress,
+            status: job.status
           })}\n\n`;
           controller.enqueue(encoder.encode(completeData));
-          controller.close();
-          clearInterval(intervalId);
+          closeStream();
         }
       }, 1000); // Update every second
 
       // Clean up on stream close
-      request.signal.addEventListener('abort', () => {
-        clearInterval(intervalId);
-        controller.close();
-      });
+      request.signal.addEventListener('abort', closeStream);
     }
   });
 
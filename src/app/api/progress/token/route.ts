@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthService, withAuth, User } from '@/lib/auth';
+import { JobManager } from '@/lib/job-manager';
+
+// EventSource cannot send an Authorization header, so the progress stream is opened with a short-lived token for one job
+export const POST = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const body = await request.json();
+    const { jobId } = body;
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Missing jobId in request body' },
+        { status: 400 }
+      );
+    }
+
+    if (!await JobManager.getJobForUser(jobId, user)) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      token: AuthService.createStreamToken(jobId, user)
+    });
+
+  } catch (error) {
+    console.error('Progress token API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue progress token' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:view'] });
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobManager } from '@/lib/job-manager';
+import { withAuth, User } from '@/lib/auth';
+
+export const POST = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const body = await request.json();
+    const { jobId } = body;
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Missing jobId in request body' },
+        { status: 400 }
+      );
+    }
+
+    if (!await JobManager.getJobForUser(jobId, user)) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    // Attempt to resume the job from its last checkpoint
+    const result = await JobManager.resumeJob(jobId);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message || 'Job cannot be resumed' },
+        { status: result.message === 'Job not found' ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      message: 'Job resumed from last committed row'
+    });
+
+  } catch (error) {
+    console.error('Resume API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume job' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:resume'] });
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JobManager } from '@/lib/job-manager';
+import { withAuth, User } from '@/lib/auth';
+
+export const POST = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const body = await request.json();
+    const { jobId } = body;
+
+    if (!jobId) {
+      return NextResponse.json(
+        { error: 'Missing jobId in request body' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`↩️ Rollback of job ${jobId} requested by ${user.email}`);
+    const rollback = await JobManager.rollbackJob(jobId);
+
+    if (!rollback.success || !rollback.result) {
+      return NextResponse.json(
+        { error: rollback.message || 'Job cannot be rolled back' },
+        { status: rollback.message === 'Job not found' ? 404 : 409 }
+      );
+    }
+
+    const { result } = rollback;
+
+    return NextResponse.json({
+      success: true,
+      jobId,
+      complete: result.conflicts.length === 0,
+      restored: result.restored,
+      deleted: result.deleted,
+      reverted: result.reverted,
+      conflicts: result.conflicts,
+      message: result.conflicts.length === 0
+        ? 'Job rolled back'
+        : `Job partially rolled back: ${result.conflicts.length} rows could not be restored safely`
+    });
+
+  } catch (error) {
+    console.error('Rollback API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back job' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['jobs:rollback'] });
@@ -4,6 +4,14 @@ import { executeQuery } from '@/lib/database';
 
 export async function POST() {
   try {
+    // Seeds accounts with well-known passwords, so production needs an explicit opt-in
+    if (process.env.NODE_ENV === 'production' && process.env.ALLOW_USER_SETUP !== 'true') {
+      return NextResponse.json({
+        status: 'error',
+        message: 'User setup is disabled in production. Set ALLOW_USER_SETUP=true to seed the first accounts.'
+      }, { status: 403 });
+    }
+
     // Check if any staff users exist
     const existingUsers = await executeQuery(
       'SELECT COUNT(*) as count FROM staff_users'
@@ -37,9 +45,6 @@ export async function POST() {
       }
     ];
 
-    // First, delete existing users to recreate with fresh hashes
-    await executeQuery('DELETE FROM staff_users');
-
     let createdCount = 0;
     for (const user of defaultUsers) {
       const hashedPassword = await AuthService.hashPassword(user.password);
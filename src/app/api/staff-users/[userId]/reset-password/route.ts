@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { StaffUserService } from '@/lib/staff-users';
+
+export const POST = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ userId: string }>) => {
+  try {
+    const userId = parseInt((await params).userId);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Missing user id' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const result = await StaffUserService.resetPassword(userId, body.password);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message || 'Failed to reset password' },
+        { status: result.message === 'User not found' ? 404 : 400 }
+      );
+    }
+
+    console.log(`🔑 Password of account ${userId} reset by ${user.email}`);
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Reset staff password error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['users:manage'] });
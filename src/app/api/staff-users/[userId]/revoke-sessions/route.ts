@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { SessionService } from '@/lib/sessions';
+import { StaffUserService } from '@/lib/staff-users';
+
+export const POST = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ userId: string }>) => {
+  try {
+    const userId = parseInt((await params).userId);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Missing user id' },
+        { status: 400 }
+      );
+    }
+
+    if (!await StaffUserService.getUser(userId)) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const revoked = await SessionService.revokeUserSessions(userId);
+
+    console.log(`🚪 ${revoked} session(s) of account ${userId} revoked by ${user.email}`);
+    return NextResponse.json({ success: true, revoked });
+
+  } catch (error) {
+    console.error('Revoke staff sessions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['users:manage'] });
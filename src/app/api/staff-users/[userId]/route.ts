@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User, RouteContext } from '@/lib/auth';
+import { StaffUserService } from '@/lib/staff-users';
+
+export const PATCH = withAuth(async (request: NextRequest, user: User, { params }: RouteContext<{ userId: string }>) => {
+  try {
+    const userId = parseInt((await params).userId);
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Missing user id' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { email, name, role, active } = body;
+
+    if (active !== undefined && typeof active !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Active must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const result = await StaffUserService.updateUser(userId, { email, name, role, active }, user.id);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message || 'Failed to update user' },
+        { status: result.message === 'User not found' ? 404 : 400 }
+      );
+    }
+
+    console.log(`👤 Account ${userId} updated by ${user.email}`);
+    return NextResponse.json({
+      success: true,
+      user: result.user
+    });
+
+  } catch (error) {
+    console.error('Update staff user error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['users:manage'] });
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, User } from '@/lib/auth';
+import { STAFF_ROLES, StaffUserService } from '@/lib/staff-users';
+
+export const GET = withAuth(async () => {
+  try {
+    return NextResponse.json({
+      success: true,
+      users: await StaffUserService.listUsers(),
+      roles: STAFF_ROLES
+    });
+
+  } catch (error) {
+    console.error('List staff users error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load staff users' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['users:manage'] });
+
+export const POST = withAuth(async (request: NextRequest, user: User) => {
+  try {
+    const body = await request.json();
+    const { email, name, password, role } = body;
+
+    const result = await StaffUserService.createUser({ email, name, password, role });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message || 'Failed to create user' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`👤 Account ${result.user?.email} created by ${user.email}`);
+    return NextResponse.json({
+      success: true,
+      user: result.user
+    });
+
+  } catch (error) {
+    console.error('Create staff user error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}, { permissions: ['users:manage'] });
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { DEFAULT_UPDATE_POLICY, UPDATE_POLICIES } from '@/lib/update-policy';
+
+export const GET = withAuth(async () => {
+  return NextResponse.json({
+    success: true,
+    policies: Object.values(UPDATE_POLICIES),
+    defaultPolicy: DEFAULT_UPDATE_POLICY
+  });
+});
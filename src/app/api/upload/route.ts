@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import path from 'path';
-import { withAuth } from '@/lib/auth';
+import { withAuth, User } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
 import { JobManager } from '@/lib/job-manager';
 import { testConnection } from '@/lib/database';
+import { SpreadsheetReader } from '@/lib/spreadsheet-reader';
+import { saveUploadedFile } from '@/lib/uploads';
+import { UpdatePolicy, UpdatePolicyService } from '@/lib/update-policy';
+import { LookupCorrection, LookupSuggestionService } from '@/lib/lookup-suggestions';
+import { MAX_BATCH_SIZE, MAX_CONCURRENCY, clampLimit } from '@/lib/csv-processor';
 
-export const POST = withAuth(async (request: NextRequest) => {
+export const POST = withAuth(async (request: NextRequest, user: User) => {
   console.log('🎯 UPLOAD API CALLED - Starting upload process');
   
   try {
@@ -37,16 +40,44 @@ export const POST = withAuth(async (request: NextRequest) => {
     console.log('✅ Form data parsed successfully');
     const file = formData.get('csvFile') as File;
     const dryRun = formData.get('dryRun') === 'true';
-    const batchSize = parseInt(formData.get('batchSize') as string) || parseInt(process.env.BATCH_SIZE || '500');
+    const batchSize = clampLimit(
+      parseInt(formData.get('batchSize') as string) || parseInt(process.env.BATCH_SIZE || '500'),
+      MAX_BATCH_SIZE
+    );
+    const concurrency = clampLimit(
+      parseInt(formData.get('concurrency') as string) || parseInt(process.env.WORKER_CONCURRENCY || '4'),
+      MAX_CONCURRENCY
+    );
+    const mappingProfileId = parseInt(formData.get('mappingProfileId') as string) || undefined;
+    const sheetName = (formData.get('sheetName') as string) || undefined;
+    const updatePolicyMode = formData.get('updatePolicy') as string | null;
+    const updateFields = formData.has('updateFields')
+      ? (formData.get('updateFields') as string).split(',')
+      : null;
+    const lookupCorrectionsJson = formData.get('lookupCorrections') as string | null;
 
     console.log('📊 Form data extracted:', {
       hasFile: !!file,
       fileName: file?.name,
       fileSize: file?.size,
       dryRun,
-      batchSize
+      batchSize,
+      concurrency,
+      mappingProfileId,
+      sheetName,
+      updatePolicyMode,
+      updateFields,
+      lookupCorrectionsJson
     });
 
+    // Dry runs are open to every uploader; keeping the changes needs upload:commit
+    if (!dryRun && !hasPermission(user.role, 'upload:commit')) {
+      return NextResponse.json(
+        { error: 'You may only run dry runs. Tick "Dry run" to validate this file.' },
+        { status: 403 }
+      );
+    }
+
     // Validate file
     if (!file) {
       console.error('❌ No file in form data');
@@ -57,10 +88,10 @@ export const POST = withAuth(async (request: NextRequest) => {
     }
 
     // Check file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    if (!SpreadsheetReader.isSupportedFile(file.name)) {
       console.error('❌ Invalid file type:', file.name);
       return NextResponse.json(
-        { error: 'Only CSV files are allowed' },
+        { error: 'Only CSV, XLSX and ODS files are allowed' },
         { status: 400 }
       );
     }
@@ -77,47 +108,51 @@ export const POST = withAuth(async (request: NextRequest) => {
 
     console.log('✅ File validation passed');
 
-    // Create uploads directory - use system temp in production
-    const uploadsDir = process.env.UPLOAD_DIR || (process.env.NODE_ENV === 'production' ? '/tmp/uploads' : './uploads');
-    console.log('📁 Checking upload directory:', uploadsDir);
-    
-    if (!existsSync(uploadsDir)) {
-      console.log('📁 Creating upload directory...');
-      await mkdir(uploadsDir, { recursive: true });
-      console.log('✅ Upload directory created');
+    // Validate the update policy against its field allowlist
+    let updatePolicy: UpdatePolicy;
+    try {
+      updatePolicy = UpdatePolicyService.resolve(updatePolicyMode, updateFields);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid update policy' },
+        { status: 400 }
+      );
     }
 
-    // Save uploaded file
-    console.log('💾 Saving file...');
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    const fileName = `${Date.now()}_${file.name}`;
-    const filePath = path.join(uploadsDir, fileName);
-    
-    console.log('💾 Writing file to:', filePath);
-    await writeFile(filePath, buffer);
-    console.log('✅ File saved successfully');
+    // Validate accepted fuzzy-match suggestions for unknown course, state and LGA names
+    let lookupCorrections: LookupCorrection[];
+    try {
+      lookupCorrections = await LookupSuggestionService.parseCorrections(lookupCorrectionsJson);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid lookup corrections' },
+        { status: 400 }
+      );
+    }
+
+    const filePath = await saveUploadedFile(file);
 
     // Create processing job
     console.log('🏗️ Creating processing job...');
-    const job = JobManager.createJob({
+    const job = await JobManager.createJob({
       dryRun,
-      batchSize
+      batchSize,
+      concurrency,
+      mappingProfileId,
+      sheetName,
+      updatePolicy,
+      lookupCorrections
+    }, {
+      userId: user.id,
+      fileName: file.name,
+      filePath
     });
     console.log('✅ Job created successfully:', job.id);
 
     console.log(`📤 Upload API created job: ${job.id}, starting processing in 2 seconds...`);
 
     // Start processing asynchronously with minimal delay to allow UI to connect
-    setTimeout(() => {
-      console.log(`⏰ Starting processing for job: ${job.id}`);
-      job.processor.processFile(filePath).catch(error => {
-        console.error(`Job ${job.id} failed:`, error);
-        // Update job progress to reflect error
-        job.progress.isComplete = true;
-        job.progress.message = `Processing failed: ${error.message}`;
-      });
-    }, 2000); // 2 second delay to let UI load and connect
+    JobManager.startJob(job, 2000); // 2 second delay to let UI load and connect
 
     console.log(`📤 Returning job ID to client: ${job.id}`);
     return NextResponse.json({
@@ -149,4 +184,4 @@ export const POST = withAuth(async (request: NextRequest) => {
       { status: 500 }
     );
   }
-});
\ No newline at end of file
+}, { permissions: ['upload:dry-run'] });
@@ -1,10 +1,13 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import FileUpload from "@/components/FileUpload";
 import ProgressTracker from "@/components/ProgressTracker";
 import JobSummary from "@/components/JobSummary";
+import { hasPermission } from "@/lib/permissions";
+import { logout } from "@/lib/api-client";
 
 interface User {
   id: number;
@@ -16,14 +19,14 @@ interface User {
 export default function DashboardPage() {
   const [user, setUser] = useState<User | null>(null);
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+  const [summaryKey, setSummaryKey] = useState(0);
   const router = useRouter();
 
   useEffect(() => {
     // Check authentication
-    const token = localStorage.getItem("token");
     const userData = localStorage.getItem("user");
 
-    if (!token || !userData) {
+    if (!userData) {
       router.push("/login");
       return;
     }
@@ -36,9 +39,8 @@ export default function DashboardPage() {
     }
   }, [router]);
 
-  const handleLogout = () => {
-    localStorage.removeItem("token");
-    localStorage.removeItem("user");
+  const handleLogout = async () => {
+    await logout();
     router.push("/login");
   };
 
@@ -47,9 +49,10 @@ export default function DashboardPage() {
     setCurrentJobId(jobId);
   };
 
-  const handleJobComplete = () => {
-    // Job completed
-  };
+  // Stable so ProgressTracker does not reconnect when the summary reloads
+  const handleJobComplete = useCallback(() => {
+    setSummaryKey((key) => key + 1);
+  }, []);
 
   const handleNewUpload = () => {
     setCurrentJobId(null);
@@ -77,12 +80,34 @@ export default function DashboardPage() {
                 Welcome, {user.name} ({user.role})
               </p>
             </div>
-            <button
-              onClick={handleLogout}
-              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
-            >
-              Logout
-            </button>
+            <div className="flex items-center space-x-3">
+              <Link
+                href="/jobs"
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Job History
+              </Link>
+              <Link
+                href="/aliases"
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Lookup Aliases
+              </Link>
+              {hasPermission(user.role, "users:manage") && (
+                <Link
+                  href="/users"
+                  className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+                >
+                  Staff Users
+                </Link>
+              )}
+              <button
+                onClick={handleLogout}
+                className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Logout
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -114,11 +139,18 @@ export default function DashboardPage() {
                     </h3>
                     <div className="mt-2 text-sm text-blue-700">
                       <ul className="list-disc list-inside space-y-1">
-                        <li>Upload CSV files with student biodata</li>
+                        <li>
+                          Upload CSV, Excel (.xlsx) or ODS files with student
+                          biodata
+                        </li>
                         <li>
                           Required columns: Matric Number, Last Name, First
                           Name, Gender, DoB, Year Of Entry, Department
                         </li>
+                        <li>
+                          Files with different headers can be uploaded using a
+                          column mapping profile
+                        </li>
                         <li>Maximum file size: 200MB</li>
                         <li>
                           Use dry-run mode to validate data before importing
@@ -133,7 +165,10 @@ export default function DashboardPage() {
               </div>
 
               {/* File Upload Component */}
-              <FileUpload onUploadStart={handleUploadStart} />
+              <FileUpload
+                onUploadStart={handleUploadStart}
+                canCommit={hasPermission(user.role, "upload:commit")}
+              />
             </div>
           ) : (
             <div className="space-y-8">
@@ -141,10 +176,18 @@ export default function DashboardPage() {
               <ProgressTracker
                 jobId={currentJobId}
                 onComplete={handleJobComplete}
+                canCancel={hasPermission(user.role, "jobs:cancel")}
+                canResume={hasPermission(user.role, "jobs:resume")}
+                canRollback={hasPermission(user.role, "jobs:rollback")}
               />
 
               {/* Job Summary */}
-              <JobSummary jobId={currentJobId} onNewUpload={handleNewUpload} />
+              <JobSummary
+                jobId={currentJobId}
+                onNewUpload={handleNewUpload}
+                refreshKey={summaryKey}
+                canResubmit={hasPermission(user.role, "jobs:resubmit")}
+              />
             </div>
           )}
         </div>
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import ProgressTracker from "@/components/ProgressTracker";
+import JobSummary from "@/components/JobSummary";
+import { hasPermission } from "@/lib/permissions";
+
+interface User {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+}
+
+export default function JobDetailPage() {
+  const { jobId } = useParams<{ jobId: string }>();
+  const [user, setUser] = useState<User | null>(null);
+  const [summaryKey, setSummaryKey] = useState(0);
+  const router = useRouter();
+
+  const handleJobComplete = useCallback(() => {
+    setSummaryKey((key) => key + 1);
+  }, []);
+
+  useEffect(() => {
+    // Check authentication
+    const userData = localStorage.getItem("user");
+
+    if (!userData) {
+      router.push("/login");
+      return;
+    }
+
+    try {
+      setUser(JSON.parse(userData));
+    } catch {
+      console.error("Invalid user data");
+      router.push("/login");
+    }
+  }, [router]);
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-indigo-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Job Details</h1>
+              <p className="text-sm text-gray-600 font-mono">{jobId}</p>
+            </div>
+            <Link
+              href="/jobs"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Back to Job History
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-8">
+          <ProgressTracker
+            jobId={jobId}
+            onComplete={handleJobComplete}
+            canCancel={hasPermission(user.role, "jobs:cancel")}
+            canResume={hasPermission(user.role, "jobs:resume")}
+            canRollback={hasPermission(user.role, "jobs:rollback")}
+          />
+          <JobSummary
+            jobId={jobId}
+            onNewUpload={() => router.push("/dashboard")}
+            refreshKey={summaryKey}
+            canResubmit={hasPermission(user.role, "jobs:resubmit")}
+          />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,374 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { authFetch, isSignedIn } from "@/lib/api-client";
+
+interface JobListEntry {
+  id: string;
+  fileName: string | null;
+  status: string;
+  uploader: { id: number; name: string | null; email: string | null } | null;
+  options: Record<string, unknown>;
+  counts: {
+    total: number;
+    processed: number;
+    inserted: number;
+    updated: number;
+    unchanged: number;
+    duplicateSkipped: number;
+    failed: number;
+  };
+  message: string;
+  startedAt: string;
+  completedAt: string | null;
+  durationSeconds: number | null;
+}
+
+interface Uploader {
+  id: number;
+  name: string;
+  email: string;
+}
+
+const PAGE_SIZE = 25;
+
+const STATUS_STYLES: Record<string, string> = {
+  completed: "bg-green-100 text-green-800",
+  running: "bg-blue-100 text-blue-800",
+  pending: "bg-gray-100 text-gray-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-yellow-100 text-yellow-800",
+  interrupted: "bg-orange-100 text-orange-800",
+  rolled_back: "bg-purple-100 text-purple-800",
+};
+
+export default function JobsPage() {
+  const router = useRouter();
+  const [jobs, setJobs] = useState<JobListEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [uploaders, setUploaders] = useState<Uploader[]>([]);
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [userId, setUserId] = useState("");
+  const [status, setStatus] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>("");
+
+  const loadJobs = useCallback(async () => {
+    if (!isSignedIn()) {
+      router.push("/login");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const params = new URLSearchParams({
+        limit: PAGE_SIZE.toString(),
+        offset: offset.toString(),
+      });
+      if (userId) params.set("userId", userId);
+      if (status) params.set("status", status);
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+
+      const response = await authFetch(`/api/jobs?${params}`);
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load jobs");
+        return;
+      }
+
+      setJobs(data.jobs);
+      setTotal(data.total);
+      setUploaders(data.uploaders);
+      setStatuses(data.statuses);
+    } catch {
+      setError("Network error while loading jobs");
+    } finally {
+      setLoading(false);
+    }
+  }, [router, offset, userId, status, from, to]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  const updateFilter = (setter: (value: string) => void, value: string) => {
+    setter(value);
+    setOffset(0);
+  };
+
+  const handleDownloadErrors = async (jobId: string) => {
+    try {
+      const response = await authFetch(`/api/download-errors?jobId=${jobId}`);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(`Download failed: ${errorData.error}`);
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `failed-records-${jobId}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      setError("Download failed. Please try again.");
+    }
+  };
+
+  const formatDuration = (seconds: number | null) => {
+    if (seconds === null) return "-";
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const remainder = seconds % 60;
+
+    if (hours > 0) {
+      return `${hours}h ${minutes}m ${remainder}s`;
+    }
+    return `${minutes}m ${remainder}s`;
+  };
+
+  const describeMode = (options: Record<string, unknown>) => {
+    if (options.validateOnly) return "Validation";
+    if (options.dryRun) return "Dry run";
+    return "Import";
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Job History</h1>
+              <p className="text-sm text-gray-600">
+                Every upload, validation and dry run
+              </p>
+            </div>
+            <Link
+              href="/dashboard"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* Filters */}
+          <div className="bg-white shadow rounded-lg p-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <label className="text-sm text-gray-700">
+              Uploaded by
+              <select
+                value={userId}
+                onChange={(e) => updateFilter(setUserId, e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="">Everyone</option>
+                {uploaders.map((uploader) => (
+                  <option key={uploader.id} value={uploader.id}>
+                    {uploader.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Status
+              <select
+                value={status}
+                onChange={(e) => updateFilter(setStatus, e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                <option value="">Any status</option>
+                {statuses.map((option) => (
+                  <option key={option} value={option}>
+                    {option.replace("_", " ")}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              From
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => updateFilter(setFrom, e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              To
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => updateFilter(setTo, e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Job Table */}
+          <div className="bg-white shadow rounded-lg overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    File
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Uploader
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Mode
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Status
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">
+                    Rows
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">
+                    Inserted
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">
+                    Updated
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">
+                    Failed
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Started
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Duration
+                  </th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={11} className="px-3 py-6 text-center text-gray-500">
+                      Loading jobs...
+                    </td>
+                  </tr>
+                ) : jobs.length === 0 ? (
+                  <tr>
+                    <td colSpan={11} className="px-3 py-6 text-center text-gray-500">
+                      No jobs match these filters
+                    </td>
+                  </tr>
+                ) : (
+                  jobs.map((job) => (
+                    <tr key={job.id} className="border-t border-gray-200">
+                      <td className="px-3 py-2 text-gray-900">
+                        {job.fileName || "-"}
+                      </td>
+                      <td className="px-3 py-2 text-gray-900">
+                        {job.uploader?.name || "-"}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {describeMode(job.options)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                            STATUS_STYLES[job.status] || STATUS_STYLES.pending
+                          }`}
+                        >
+                          {job.status.replace("_", " ")}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-900">
+                        {job.counts.total.toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-right text-green-700">
+                        {job.counts.inserted.toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-right text-teal-700">
+                        {job.counts.updated.toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-right text-red-700">
+                        {job.counts.failed.toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {new Date(job.startedAt).toLocaleString()}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">
+                        {formatDuration(job.durationSeconds)}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap space-x-3">
+                        <Link
+                          href={`/jobs/${job.id}`}
+                          className="text-indigo-600 hover:text-indigo-700"
+                        >
+                          Summary
+                        </Link>
+                        {job.counts.failed > 0 && (
+                          <button
+                            onClick={() => handleDownloadErrors(job.id)}
+                            className="text-orange-600 hover:text-orange-700"
+                          >
+                            Errors
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          <div className="flex items-center justify-between text-sm text-gray-600">
+            <span>
+              {total === 0
+                ? "0 jobs"
+                : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total} jobs`}
+            </span>
+            <div className="space-x-2">
+              <button
+                onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                disabled={offset === 0}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded-md disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={offset + PAGE_SIZE >= total}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-3 py-1 rounded-md disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
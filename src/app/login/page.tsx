@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import { storeSession } from "@/lib/api-client";
 
 interface LoginForm {
   email: string;
@@ -25,7 +26,8 @@ export default function LoginPage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(form),
+        // Tokens are set as HttpOnly cookies rather than returned to the page
+        body: JSON.stringify({ ...form, cookie: true }),
       });
 
       const data = await response.json();
@@ -35,22 +37,9 @@ export default function LoginPage() {
         return;
       }
 
-      // Store token and user info
-      console.log("🔑 Login successful, storing token:", {
-        hasToken: !!data.token,
-        tokenPreview: data.token ? data.token.substring(0, 20) + "..." : "null",
-        user: data.user?.email,
-      });
-
-      localStorage.setItem("token", data.token);
-      localStorage.setItem("user", JSON.stringify(data.user));
+      console.log("🔑 Login successful:", { user: data.user?.email });
 
-      // Verify token was stored
-      const storedToken = localStorage.getItem("token");
-      console.log("🔑 Token verification after storage:", {
-        stored: !!storedToken,
-        matches: storedToken === data.token,
-      });
+      storeSession(data);
 
       // Redirect to dashboard
       router.push("/dashboard");
@@ -2,15 +2,14 @@
 
 import { useEffect } from "react";
 import { useRouter } from "next/navigation";
+import { isSignedIn } from "@/lib/api-client";
 
 export default function Home() {
   const router = useRouter();
 
   useEffect(() => {
     // Check if user is logged in
-    const token = localStorage.getItem("token");
-
-    if (token) {
+    if (isSignedIn()) {
       // Redirect to dashboard if logged in
       router.push("/dashboard");
     } else {
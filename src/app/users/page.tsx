@@ -0,0 +1,484 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { authFetch, isSignedIn } from "@/lib/api-client";
+
+interface StaffUser {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+  active: boolean;
+  lastLogin: string | null;
+  activeSessions: number;
+  createdAt: string;
+}
+
+interface UserEdit {
+  id: number;
+  name: string;
+  email: string;
+}
+
+interface PasswordReset {
+  id: number;
+  password: string;
+}
+
+export default function UsersPage() {
+  const router = useRouter();
+  const [users, setUsers] = useState<StaffUser[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<number | null>(null);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState("staff");
+  const [editing, setEditing] = useState<UserEdit | null>(null);
+  const [resetting, setResetting] = useState<PasswordReset | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string>("");
+  const [notice, setNotice] = useState<string>("");
+
+  const loadUsers = useCallback(async () => {
+    if (!isSignedIn()) {
+      router.push("/login");
+      return;
+    }
+
+    try {
+      const response = await authFetch("/api/staff-users");
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to load staff users");
+        return;
+      }
+
+      setUsers(data.users);
+      setRoles(data.roles);
+    } catch {
+      setError("Network error while loading staff users");
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    try {
+      const user = JSON.parse(localStorage.getItem("user") || "null");
+      setCurrentUserId(user?.id ?? null);
+    } catch {
+      setCurrentUserId(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Send a change to one account and replace it in the list
+  const updateUser = async (userId: number, changes: Partial<StaffUser>) => {
+    setError("");
+    setNotice("");
+
+    try {
+      const response = await authFetch(`/api/staff-users/${userId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to update user");
+        return false;
+      }
+
+      setUsers((current) =>
+        current.map((entry) => (entry.id === userId ? data.user : entry))
+      );
+      return true;
+    } catch {
+      setError("Network error while updating user");
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+    setNotice("");
+
+    try {
+      const response = await authFetch("/api/staff-users", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ name, email, password, role }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to create user");
+        return;
+      }
+
+      setName("");
+      setEmail("");
+      setPassword("");
+      setRole("staff");
+      setNotice(`Account created for ${data.user.email}`);
+      await loadUsers();
+    } catch {
+      setError("Network error while creating user");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    if (await updateUser(editing.id, { name: editing.name, email: editing.email })) {
+      setEditing(null);
+    }
+  };
+
+  const handleToggleActive = async (user: StaffUser) => {
+    if (user.active && !confirm(`Deactivate ${user.email}? They will no longer be able to sign in.`)) return;
+    await updateUser(user.id, { active: !user.active });
+  };
+
+  const handleResetPassword = async () => {
+    if (!resetting) return;
+    setError("");
+    setNotice("");
+
+    try {
+      const response = await authFetch(`/api/staff-users/${resetting.id}/reset-password`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ password: resetting.password }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to reset password");
+        return;
+      }
+
+      setResetting(null);
+      setNotice("Password reset; the account has been signed out everywhere");
+      await loadUsers();
+    } catch {
+      setError("Network error while resetting password");
+    }
+  };
+
+  const handleRevokeSessions = async (user: StaffUser) => {
+    if (!confirm(`Sign ${user.email} out of all ${user.activeSessions} session(s)?`)) return;
+    setError("");
+    setNotice("");
+
+    try {
+      const response = await authFetch(`/api/staff-users/${user.id}/revoke-sessions`, {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to revoke sessions");
+        return;
+      }
+
+      setNotice(`Signed ${user.email} out of ${data.revoked} session(s)`);
+      await loadUsers();
+    } catch {
+      setError("Network error while revoking sessions");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Staff Users</h1>
+              <p className="text-sm text-gray-600">
+                Accounts that can sign in to the uploader
+              </p>
+            </div>
+            <Link
+              href="/dashboard"
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+        <div className="px-4 py-6 sm:px-0 space-y-6">
+          {/* New Account */}
+          <form
+            onSubmit={handleCreate}
+            className="bg-white shadow rounded-lg p-4 grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+          >
+            <label className="text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Email
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Password
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="At least 8 characters"
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Role
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value)}
+                className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {(roles.length > 0 ? roles : ["staff", "admin"]).map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={saving || !name.trim() || !email.trim() || !password}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {saving ? "Creating..." : "Add User"}
+            </button>
+          </form>
+
+          {notice && (
+            <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded text-sm">
+              {notice}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Account Table */}
+          <div className="bg-white shadow rounded-lg overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-100">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Name
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Email
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Role
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Status
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Last Login
+                  </th>
+                  <th className="px-3 py-2 text-left font-medium text-gray-700">
+                    Sessions
+                  </th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {loading ? (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-gray-500">
+                      Loading staff users...
+                    </td>
+                  </tr>
+                ) : users.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-gray-500">
+                      No staff users
+                    </td>
+                  </tr>
+                ) : (
+                  users.map((user) => {
+                    const isSelf = user.id === currentUserId;
+                    const isEditing = editing?.id === user.id;
+                    const isResetting = resetting?.id === user.id;
+
+                    return (
+                      <tr
+                        key={user.id}
+                        className={`border-t border-gray-200 ${user.active ? "" : "text-gray-400"}`}
+                      >
+                        <td className="px-3 py-2">
+                          {isEditing ? (
+                            <input
+                              type="text"
+                              value={editing.name}
+                              onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                            />
+                          ) : (
+                            user.name
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {isEditing ? (
+                            <input
+                              type="email"
+                              value={editing.email}
+                              onChange={(e) => setEditing({ ...editing, email: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                            />
+                          ) : (
+                            user.email
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          <select
+                            value={user.role}
+                            disabled={isSelf}
+                            onChange={(e) => updateUser(user.id, { role: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                          >
+                            {(roles.length > 0 ? roles : ["staff", "admin"]).map((option) => (
+                              <option key={option} value={option}>
+                                {option}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          {user.active ? (
+                            <span className="text-green-700">Active</span>
+                          ) : (
+                            "Deactivated"
+                          )}
+                        </td>
+                        <td className="px-3 py-2">
+                          {user.lastLogin ? new Date(user.lastLogin).toLocaleString() : "Never"}
+                        </td>
+                        <td className="px-3 py-2">{user.activeSessions}</td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap space-x-3">
+                          {isResetting ? (
+                            <>
+                              <input
+                                type="password"
+                                value={resetting.password}
+                                onChange={(e) => setResetting({ ...resetting, password: e.target.value })}
+                                placeholder="New password"
+                                className="px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <button
+                                onClick={handleResetPassword}
+                                disabled={!resetting.password}
+                                className="text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                              >
+                                Set
+                              </button>
+                              <button
+                                onClick={() => setResetting(null)}
+                                className="text-gray-600 hover:text-gray-700"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : isEditing ? (
+                            <>
+                              <button
+                                onClick={handleSaveEdit}
+                                className="text-indigo-600 hover:text-indigo-700"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => setEditing(null)}
+                                className="text-gray-600 hover:text-gray-700"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => setEditing({ id: user.id, name: user.name, email: user.email })}
+                                className="text-indigo-600 hover:text-indigo-700"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                onClick={() => setResetting({ id: user.id, password: "" })}
+                                className="text-indigo-600 hover:text-indigo-700"
+                              >
+                                Reset Password
+                              </button>
+                              {user.activeSessions > 0 && (
+                                <button
+                                  onClick={() => handleRevokeSessions(user)}
+                                  className="text-red-600 hover:text-red-700"
+                                >
+                                  Sign Out Everywhere
+                                </button>
+                              )}
+                              {!isSelf && (
+                                <button
+                                  onClick={() => handleToggleActive(user)}
+                                  className={user.active ? "text-red-600 hover:text-red-700" : "text-green-600 hover:text-green-700"}
+                                >
+                                  {user.active ? "Deactivate" : "Reactivate"}
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
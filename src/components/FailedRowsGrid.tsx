@@ -0,0 +1,326 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { authFetch } from "@/lib/api-client";
+
+interface FailedRowsGridProps {
+  jobId: string;
+  canResubmit?: boolean;
+}
+
+interface FailedRow {
+  rowNumber: number;
+  code: string;
+  field: string | null;
+  value: string | null;
+  reason: string;
+  data: Record<string, string>;
+}
+
+interface RowValidation {
+  valid: boolean;
+  code?: string;
+  field?: string | null;
+  reason?: string;
+}
+
+// Columns shown for editing; other columns of the row are re-submitted unchanged
+const EDITABLE_COLUMNS = [
+  "Matric Number",
+  "Last Name",
+  "First Name",
+  "Othernames",
+  "Gender",
+  "DoB",
+  "Marital Status",
+  "Phone",
+  "Email",
+  "Year Of Entry",
+  "State Of Origin",
+  "LGA",
+  "Department",
+  "Programme",
+  "Programme Duration",
+];
+
+export default function FailedRowsGrid({
+  jobId,
+  canResubmit = true,
+}: FailedRowsGridProps) {
+  const [rows, setRows] = useState<FailedRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [validations, setValidations] = useState<Record<number, RowValidation>>(
+    {}
+  );
+  const [validating, setValidating] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [childJobId, setChildJobId] = useState<string>("");
+  const [error, setError] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRows = async () => {
+      try {
+        const response = await authFetch(`/api/jobs/${jobId}/failed-rows`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || "Failed to load failed rows");
+          return;
+        }
+
+        setRows(data.rows);
+        setTotal(data.total);
+      } catch {
+        setError("Network error while loading failed rows");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRows();
+  }, [jobId]);
+
+  const updateCell = (rowNumber: number, column: string, value: string) => {
+    setRows((current) =>
+      current.map((row) =>
+        row.rowNumber === rowNumber
+          ? { ...row, data: { ...row.data, [column]: value } }
+          : row
+      )
+    );
+    // An edited row has to be validated again
+    setValidations((current) => {
+      const next = { ...current };
+      delete next[rowNumber];
+      return next;
+    });
+  };
+
+  const toggleRow = (rowNumber: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(rowNumber)) {
+        next.delete(rowNumber);
+      } else {
+        next.add(rowNumber);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(
+      selected.size === rows.length
+        ? new Set()
+        : new Set(rows.map((row) => row.rowNumber))
+    );
+  };
+
+  const handleValidate = async (row: FailedRow) => {
+    setValidating(row.rowNumber);
+    setError("");
+
+    try {
+      const response = await authFetch(`/api/jobs/${jobId}/validate-row`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ row: row.data }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Validation failed");
+        return;
+      }
+
+      setValidations((current) => ({
+        ...current,
+        [row.rowNumber]: data.valid
+          ? { valid: true }
+          : {
+              valid: false,
+              code: data.error.code,
+              field: data.error.field,
+              reason: data.error.reason,
+            },
+      }));
+    } catch {
+      setError("Network error during validation");
+    } finally {
+      setValidating(null);
+    }
+  };
+
+  const handleResubmit = async () => {
+    setSubmitting(true);
+    setError("");
+
+    try {
+      const response = await authFetch(`/api/jobs/${jobId}/resubmit`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          rows: rows
+            .filter((row) => selected.has(row.rowNumber))
+            .map((row) => row.data),
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Re-submission failed");
+        return;
+      }
+
+      setChildJobId(data.jobId);
+      setSelected(new Set());
+    } catch {
+      setError("Network error during re-submission");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading failed rows...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-md font-medium text-gray-900">
+          Correct Failed Rows
+        </h3>
+        {canResubmit && (
+          <button
+            onClick={handleResubmit}
+            disabled={selected.size === 0 || submitting}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+          >
+            {submitting
+              ? "Re-submitting..."
+              : `Re-submit Selected (${selected.size})`}
+          </button>
+        )}
+      </div>
+
+      {rows.length < total && (
+        <p className="text-sm text-gray-600">
+          Showing the first {rows.length.toLocaleString()} of{" "}
+          {total.toLocaleString()} failed rows. Download the failed records
+          file for the rest.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {childJobId && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded text-sm">
+          Corrected rows re-submitted as job{" "}
+          <Link
+            href={`/jobs/${childJobId}`}
+            className="font-mono underline hover:text-green-900"
+          >
+            {childJobId}
+          </Link>
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-gray-200 rounded">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-2 py-1">
+                <input
+                  type="checkbox"
+                  checked={rows.length > 0 && selected.size === rows.length}
+                  disabled={!canResubmit}
+                  onChange={toggleAll}
+                />
+              </th>
+              <th className="px-2 py-1 text-left">Row</th>
+              <th className="px-2 py-1 text-left">Error</th>
+              {EDITABLE_COLUMNS.map((column) => (
+                <th
+                  key={column}
+                  className="px-2 py-1 text-left whitespace-nowrap"
+                >
+                  {column}
+                </th>
+              ))}
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const validation = validations[row.rowNumber];
+              const errorField = validation ? validation.field : row.field;
+
+              return (
+                <tr key={row.rowNumber} className="border-t border-gray-200">
+                  <td className="px-2 py-1">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(row.rowNumber)}
+                      disabled={!canResubmit}
+                      onChange={() => toggleRow(row.rowNumber)}
+                    />
+                  </td>
+                  <td className="px-2 py-1">{row.rowNumber}</td>
+                  <td className="px-2 py-1 min-w-[12rem]">
+                    {validation?.valid ? (
+                      <span className="text-green-700">Valid</span>
+                    ) : (
+                      <span className="text-red-700">
+                        {validation?.code || row.code}:{" "}
+                        {validation?.reason || row.reason}
+                      </span>
+                    )}
+                  </td>
+                  {EDITABLE_COLUMNS.map((column) => (
+                    <td key={column} className="px-1 py-1">
+                      <input
+                        type="text"
+                        value={row.data[column] ?? ""}
+                        onChange={(e) =>
+                          updateCell(row.rowNumber, column, e.target.value)
+                        }
+                        className={`w-32 px-1 py-0.5 border rounded ${
+                          errorField === column
+                            ? "border-red-400 bg-red-50"
+                            : "border-gray-300"
+                        }`}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-2 py-1">
+                    <button
+                      onClick={() => handleValidate(row)}
+                      disabled={validating === row.rowNumber}
+                      className="text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                    >
+                      {validating === row.rowNumber
+                        ? "Checking..."
+                        : "Validate"}
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,23 @@
 "use client";
 
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import MappingProfileEditor from "./MappingProfileEditor";
+import ProgressTracker from "./ProgressTracker";
+import { authFetch, isSignedIn, usesBearerToken } from "@/lib/api-client";
 
 interface FileUploadProps {
   onUploadStart: (jobId: string) => void;
+  canCommit?: boolean; // False limits the user to dry runs
+}
+
+// Upload formats accepted by /api/upload and /api/dry-run
+const SUPPORTED_EXTENSIONS = [".csv", ".xlsx", ".ods"];
+
+interface MappingProfile {
+  id: number;
+  name: string;
+  description: string | null;
+  entries: Array<{ sourceHeader: string; canonicalField: string }>;
 }
 
 interface DryRunResult {
@@ -21,6 +35,8 @@ interface DryRunResult {
     errors: string[];
     isValid: boolean;
   }>;
+  sheets?: string[];
+  selectedSheet?: string;
   fileInfo: {
     name: string;
     size: number;
@@ -28,16 +44,149 @@ interface DryRunResult {
   };
 }
 
-export default function FileUpload({ onUploadStart }: FileUploadProps) {
+interface UpdatePolicyOption {
+  mode: string;
+  label: string;
+  allowedFields: string[];
+  defaultFields: string[];
+}
+
+interface LookupSuggestion {
+  field: string;
+  value: string;
+  rows: number;
+  candidates: Array<{ id: number; name: string; score: number }>;
+}
+
+interface LookupCorrection {
+  field: string;
+  value: string;
+  id: number;
+}
+
+const LOOKUP_FIELD_LABELS: Record<string, string> = {
+  course_of_study: "Course of study",
+  state: "State of origin",
+  lga: "LGA",
+};
+
+interface FullValidationResult {
+  jobId: string;
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+  };
+  errors: Array<{
+    rowNumber: number;
+    matricNumber: string | null;
+    reason: string;
+    code: string;
+  }>;
+  errorGroups: {
+    byCode: Array<{ code: string; count: number }>;
+  };
+  lookupSuggestions: LookupSuggestion[];
+}
+
+export default function FileUpload({
+  onUploadStart,
+  canCommit = true,
+}: FileUploadProps) {
   const [isDragOver, setIsDragOver] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dryRun, setDryRun] = useState(true);
   const [batchSize, setBatchSize] = useState(500);
+  const [concurrency, setConcurrency] = useState(4);
   const [loading, setLoading] = useState(false);
   const [dryRunResult, setDryRunResult] = useState<DryRunResult | null>(null);
+  const [fullValidation, setFullValidation] =
+    useState<FullValidationResult | null>(null);
+  const [validationJobId, setValidationJobId] = useState<string | null>(null);
   const [error, setError] = useState<string>("");
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [canonicalFields, setCanonicalFields] = useState<string[]>([]);
+  const [requiredFields, setRequiredFields] = useState<string[]>([]);
+  const [mappingProfileId, setMappingProfileId] = useState<string>("");
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [sheets, setSheets] = useState<string[]>([]);
+  const [sheetName, setSheetName] = useState<string>("");
+  const [updatePolicies, setUpdatePolicies] = useState<UpdatePolicyOption[]>(
+    []
+  );
+  const [updatePolicy, setUpdatePolicy] = useState<string>("");
+  const [updateFields, setUpdateFields] = useState<string[]>([]);
+  const [lookupCorrections, setLookupCorrections] = useState<
+    LookupCorrection[]
+  >([]);
+  const [savedAliases, setSavedAliases] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await authFetch("/api/mapping-profiles");
+
+      if (response.ok) {
+        const data = await response.json();
+        setProfiles(data.profiles);
+        setCanonicalFields(data.canonicalFields);
+        setRequiredFields(data.requiredFields);
+      }
+    } catch (error) {
+      console.error("Failed to load mapping profiles:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  useEffect(() => {
+    const loadUpdatePolicies = async () => {
+      try {
+        const response = await authFetch("/api/update-policies");
+
+        if (response.ok) {
+          const data = await response.json();
+          setUpdatePolicies(data.policies);
+          setUpdatePolicy(data.defaultPolicy.mode);
+          setUpdateFields(data.defaultPolicy.fields);
+        }
+      } catch (error) {
+        console.error("Failed to load update policies:", error);
+      }
+    };
+
+    loadUpdatePolicies();
+  }, []);
+
+  const selectedPolicy = updatePolicies.find(
+    (policy) => policy.mode === updatePolicy
+  );
+
+  const handlePolicyChange = (mode: string) => {
+    const policy = updatePolicies.find((option) => option.mode === mode);
+    setUpdatePolicy(mode);
+    setUpdateFields(policy ? policy.defaultFields : []);
+  };
+
+  const toggleUpdateField = (field: string) => {
+    setUpdateFields((prev) =>
+      prev.includes(field)
+        ? prev.filter((selected) => selected !== field)
+        : [...prev, field]
+    );
+  };
+
+  const handleProfileSaved = async (profileId: number) => {
+    setShowProfileEditor(false);
+    await loadProfiles();
+    setMappingProfileId(profileId.toString());
+    setDryRunResult(null);
+    setFullValidation(null);
+    setValidationJobId(null);
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(true);
@@ -59,14 +208,80 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
   };
 
   const handleFileSelection = (file: File) => {
-    if (!file.name.toLowerCase().endsWith(".csv")) {
-      setError("Please select a CSV file");
+    const fileName = file.name.toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.some((extension) => fileName.endsWith(extension))) {
+      setError("Please select a CSV, XLSX or ODS file");
       return;
     }
 
     setSelectedFile(file);
     setError("");
     setDryRunResult(null);
+    setFullValidation(null);
+    setValidationJobId(null);
+    setSheets([]);
+    setSheetName("");
+    setLookupCorrections([]);
+  };
+
+  const isAccepted = (suggestion: LookupSuggestion, id: number) =>
+    lookupCorrections.some(
+      (correction) =>
+        correction.field === suggestion.field &&
+        correction.value === suggestion.value &&
+        correction.id === id
+    );
+
+  const acceptedCorrection = (suggestion: LookupSuggestion) =>
+    lookupCorrections.find(
+      (correction) =>
+        correction.field === suggestion.field &&
+        correction.value === suggestion.value
+    );
+
+  // Save an accepted correction as an alias, so later uploads resolve it without a suggestion
+  const handleSaveAlias = async (correction: LookupCorrection) => {
+    try {
+      const response = await authFetch("/api/lookup-aliases", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          lookupType: correction.field,
+          alias: correction.value,
+          targetId: correction.id,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to save alias");
+        return;
+      }
+
+      setSavedAliases((current) => [
+        ...current,
+        `${correction.field}:${correction.value}`,
+      ]);
+    } catch {
+      setError("Network error while saving alias");
+    }
+  };
+
+  // Accepting a candidate replaces any earlier choice for the same value; accepting it again undoes it
+  const toggleCorrection = (suggestion: LookupSuggestion, id: number) => {
+    const accepted = isAccepted(suggestion, id);
+    setLookupCorrections((current) => [
+      ...current.filter(
+        (correction) =>
+          correction.field !== suggestion.field ||
+          correction.value !== suggestion.value
+      ),
+      ...(accepted
+        ? []
+        : [{ field: suggestion.field, value: suggestion.value, id }]),
+    ]);
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -86,18 +301,25 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
       const formData = new FormData();
       formData.append("csvFile", selectedFile);
       formData.append("previewRows", "10");
+      if (mappingProfileId) {
+        formData.append("mappingProfileId", mappingProfileId);
+      }
+      if (sheetName) {
+        formData.append("sheetName", sheetName);
+      }
 
-      const token = localStorage.getItem("token");
-      const response = await fetch("/api/dry-run", {
+      const response = await authFetch("/api/dry-run", {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
         body: formData,
       });
 
       const data = await response.json();
 
+      if (data.sheets) {
+        setSheets(data.sheets);
+        setSheetName(data.selectedSheet || "");
+      }
+
       if (!response.ok) {
         setError(data.error || "Dry run failed");
         return;
@@ -111,6 +333,127 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
     }
   };
 
+  const validating = validationJobId !== null && !fullValidation;
+
+  const handleFullValidation = async () => {
+    if (!selectedFile) return;
+
+    setLoading(true);
+    setError("");
+    setFullValidation(null);
+    setValidationJobId(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("csvFile", selectedFile);
+      formData.append("mode", "full");
+      if (mappingProfileId) {
+        formData.append("mappingProfileId", mappingProfileId);
+      }
+      if (sheetName) {
+        formData.append("sheetName", sheetName);
+      }
+      if (lookupCorrections.length > 0) {
+        formData.append("lookupCorrections", JSON.stringify(lookupCorrections));
+      }
+
+      const response = await authFetch("/api/dry-run", {
+        method: "POST",
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Full validation failed");
+        return;
+      }
+
+      // The file is validated by a background job; the report is loaded when it completes
+      setValidationJobId(data.jobId);
+    } catch {
+      setError("Network error during full validation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Stable per job so ProgressTracker does not reconnect on every render
+  const handleValidationComplete = useCallback(async () => {
+    if (!validationJobId) return;
+
+    try {
+      const [jobResponse, suggestionsResponse] = await Promise.all([
+        authFetch(`/api/jobs/${validationJobId}`),
+        authFetch(`/api/jobs/${validationJobId}/lookup-suggestions`),
+      ]);
+      const jobData = await jobResponse.json();
+      const suggestionsData = await suggestionsResponse.json();
+
+      if (!jobResponse.ok || !suggestionsResponse.ok) {
+        setValidationJobId(null);
+        setError(
+          jobData.error ||
+            suggestionsData.error ||
+            "Failed to load validation report"
+        );
+        return;
+      }
+
+      const { status, progress, errors } = jobData.job;
+      if (status !== "completed") {
+        setValidationJobId(null);
+        setError(progress.message || "Full validation did not finish");
+        return;
+      }
+
+      setFullValidation({
+        jobId: validationJobId,
+        summary: {
+          totalRows: progress.totalRecords,
+          validRows: progress.processedRecords - progress.failedRecordsCount,
+          invalidRows: progress.failedRecordsCount,
+        },
+        errors: errors.rows,
+        errorGroups: { byCode: errors.byCode },
+        lookupSuggestions: suggestionsData.suggestions,
+      });
+    } catch {
+      setValidationJobId(null);
+      setError("Network error while loading the validation report");
+    }
+  }, [validationJobId]);
+
+  const handleDownloadValidationErrors = async () => {
+    if (!fullValidation) return;
+
+    try {
+      const response = await authFetch(
+        `/api/download-errors?jobId=${fullValidation.jobId}`,
+        {
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(`Download failed: ${errorData.error}`);
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `failed-records-${fullValidation.jobId}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch {
+      setError("Download failed. Please try again.");
+    }
+  };
+
   const handleUpload = async () => {
     if (!selectedFile) return;
 
@@ -120,19 +463,30 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
     try {
       const formData = new FormData();
       formData.append("csvFile", selectedFile);
-      formData.append("dryRun", dryRun.toString());
+      formData.append("dryRun", (dryRun || !canCommit).toString());
       formData.append("batchSize", batchSize.toString());
+      formData.append("concurrency", concurrency.toString());
+      if (mappingProfileId) {
+        formData.append("mappingProfileId", mappingProfileId);
+      }
+      if (sheetName) {
+        formData.append("sheetName", sheetName);
+      }
+      if (updatePolicy) {
+        formData.append("updatePolicy", updatePolicy);
+        formData.append("updateFields", updateFields.join(","));
+      }
+      if (lookupCorrections.length > 0) {
+        formData.append("lookupCorrections", JSON.stringify(lookupCorrections));
+      }
 
-      const token = localStorage.getItem("token");
-      console.log("🔑 Upload token check:", {
-        hasToken: !!token,
-        tokenPreview: token ? token.substring(0, 20) + "..." : "null",
-        localStorage:
-          typeof localStorage !== "undefined" ? "available" : "unavailable",
+      console.log("🔑 Upload session check:", {
+        signedIn: isSignedIn(),
+        bearerToken: usesBearerToken(),
       });
 
-      if (!token) {
-        setError("No authentication token found. Please log in again.");
+      if (!isSignedIn()) {
+        setError("No active session found. Please log in again.");
         setLoading(false);
         return;
       }
@@ -164,11 +518,8 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
         console.error("❌ Request timed out after 60 seconds");
       }, 60000); // 60 second timeout
 
-      const response = await fetch("/api/upload", {
+      const response = await authFetch("/api/upload", {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
         body: formData,
         signal: controller.signal,
       });
@@ -232,6 +583,10 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
   const clearFile = () => {
     setSelectedFile(null);
     setDryRunResult(null);
+    setFullValidation(null);
+    setValidationJobId(null);
+    setSheets([]);
+    setSheetName("");
     setError("");
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
@@ -249,7 +604,7 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
   return (
     <div className="bg-white shadow rounded-lg p-6">
       <h2 className="text-lg font-medium text-gray-900 mb-6">
-        Upload CSV File
+        Upload Student File
       </h2>
 
       {/* File Drop Zone */}
@@ -314,14 +669,14 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
             </div>
             <div>
               <p className="text-lg font-medium text-gray-900">
-                Drop your CSV file here
+                Drop your CSV, XLSX or ODS file here
               </p>
               <p className="text-sm text-gray-500">or click to browse</p>
             </div>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept={SUPPORTED_EXTENSIONS.join(",")}
               onChange={handleFileInputChange}
               className="hidden"
             />
@@ -342,12 +697,14 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
             <label className="flex items-center">
               <input
                 type="checkbox"
-                checked={dryRun}
+                checked={dryRun || !canCommit}
+                disabled={!canCommit}
                 onChange={(e) => setDryRun(e.target.checked)}
                 className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
               />
               <span className="ml-2 text-sm text-gray-700">
                 Dry run (validate only)
+                {!canCommit && " - your role can only run dry runs"}
               </span>
             </label>
 
@@ -365,15 +722,146 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
                 className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
               />
             </div>
+
+            <div className="flex items-center space-x-2">
+              <label htmlFor="concurrency" className="text-sm text-gray-700">
+                Workers:
+              </label>
+              <input
+                id="concurrency"
+                type="number"
+                min="1"
+                max="16"
+                value={concurrency}
+                onChange={(e) => setConcurrency(parseInt(e.target.value) || 4)}
+                className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+              />
+            </div>
           </div>
 
+          <div className="flex items-center space-x-2">
+            <label htmlFor="mappingProfile" className="text-sm text-gray-700">
+              Column mapping:
+            </label>
+            <select
+              id="mappingProfile"
+              value={mappingProfileId}
+              onChange={(e) => {
+                setMappingProfileId(e.target.value);
+                setDryRunResult(null);
+                setFullValidation(null);
+                setValidationJobId(null);
+              }}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              <option value="">Standard headers</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+            {!showProfileEditor && (
+              <button
+                onClick={() => setShowProfileEditor(true)}
+                className="text-sm text-indigo-600 hover:text-indigo-700"
+              >
+                New profile
+              </button>
+            )}
+          </div>
+
+          {updatePolicies.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <label
+                  htmlFor="updatePolicy"
+                  className="text-sm text-gray-700"
+                >
+                  Existing students:
+                </label>
+                <select
+                  id="updatePolicy"
+                  value={updatePolicy}
+                  onChange={(e) => handlePolicyChange(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  {updatePolicies.map((policy) => (
+                    <option key={policy.mode} value={policy.mode}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {selectedPolicy && selectedPolicy.allowedFields.length > 0 && (
+                <div className="flex flex-wrap gap-x-4 gap-y-1 pl-4">
+                  {selectedPolicy.allowedFields.map((field) => (
+                    <label key={field} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={updateFields.includes(field)}
+                        onChange={() => toggleUpdateField(field)}
+                        className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-1 text-xs text-gray-700">
+                        {field}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {sheets.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <label htmlFor="sheetName" className="text-sm text-gray-700">
+                Sheet:
+              </label>
+              <select
+                id="sheetName"
+                value={sheetName}
+                onChange={(e) => {
+                  setSheetName(e.target.value);
+                  setDryRunResult(null);
+                  setFullValidation(null);
+                  setValidationJobId(null);
+                }}
+                className="px-2 py-1 border border-gray-300 rounded text-sm"
+              >
+                {sheets.map((sheet) => (
+                  <option key={sheet} value={sheet}>
+                    {sheet}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {showProfileEditor && (
+            <MappingProfileEditor
+              canonicalFields={canonicalFields}
+              requiredFields={requiredFields}
+              onSaved={handleProfileSaved}
+              onCancel={() => setShowProfileEditor(false)}
+            />
+          )}
+
           <div className="flex space-x-3">
             <button
               onClick={handleDryRun}
               disabled={loading}
               className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
             >
-              {loading ? "Validating..." : "Validate CSV"}
+              {loading ? "Validating..." : "Validate File"}
+            </button>
+
+            <button
+              onClick={handleFullValidation}
+              disabled={loading || validating}
+              className="bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {loading || validating ? "Validating..." : "Full Validation"}
             </button>
 
             <button
@@ -461,6 +949,198 @@ export default function FileUpload({ onUploadStart }: FileUploadProps) {
           )}
         </div>
       )}
+
+      {/* Full Validation Progress */}
+      {validationJobId && !fullValidation && (
+        <div className="mt-6">
+          <ProgressTracker
+            jobId={validationJobId}
+            onComplete={handleValidationComplete}
+            canResume={false}
+          />
+        </div>
+      )}
+
+      {/* Full Validation Results */}
+      {fullValidation && (
+        <div className="mt-6 bg-gray-50 rounded-lg p-4">
+          <h3 className="text-lg font-medium text-gray-900 mb-4">
+            Full Validation Report
+          </h3>
+
+          <div className="grid grid-cols-3 gap-4 mb-4">
+            <div className="text-center">
+              <p className="text-2xl font-bold text-blue-600">
+                {fullValidation.summary.totalRows}
+              </p>
+              <p className="text-sm text-gray-600">Total Rows</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-green-600">
+                {fullValidation.summary.validRows}
+              </p>
+              <p className="text-sm text-gray-600">Valid</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-red-600">
+                {fullValidation.summary.invalidRows}
+              </p>
+              <p className="text-sm text-gray-600">Will Fail</p>
+            </div>
+          </div>
+
+          {lookupCorrections.length > 0 && (
+            <div className="mb-4 flex items-center justify-between bg-green-50 border border-green-200 rounded px-3 py-2 text-sm text-green-800">
+              <span>
+                {lookupCorrections.length} accepted name suggestion
+                {lookupCorrections.length === 1 ? "" : "s"} will be applied
+              </span>
+              <button
+                onClick={() => setLookupCorrections([])}
+                className="text-green-900 underline"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
+          {fullValidation.lookupSuggestions.length > 0 && (
+            <div className="mb-4 bg-white border border-gray-200 rounded p-3">
+              <h4 className="text-sm font-medium text-gray-900">
+                Unrecognised names
+              </h4>
+              <p className="text-xs text-gray-600 mb-2">
+                Accepted suggestions are applied during the upload. Run full
+                validation again to check them.
+              </p>
+              <ul className="space-y-2 max-h-64 overflow-y-auto">
+                {fullValidation.lookupSuggestions.map((suggestion) => {
+                  const correction = acceptedCorrection(suggestion);
+                  const aliasSaved = savedAliases.includes(
+                    `${suggestion.field}:${suggestion.value}`
+                  );
+
+                  return (
+                    <li
+                      key={`${suggestion.field}:${suggestion.value}`}
+                      className="text-sm"
+                    >
+                      <span className="text-gray-600">
+                        {LOOKUP_FIELD_LABELS[suggestion.field] ||
+                          suggestion.field}
+                        :
+                      </span>{" "}
+                      <span className="font-medium text-gray-900">
+                        &quot;{suggestion.value}&quot;
+                      </span>{" "}
+                      <span className="text-gray-500">
+                        ({suggestion.rows} rows)
+                      </span>
+                      <div className="mt-1 flex flex-wrap gap-2">
+                        {suggestion.candidates.length === 0 ? (
+                          <span className="text-xs text-gray-500">
+                            No close match found
+                          </span>
+                        ) : (
+                          suggestion.candidates.map((candidate) => (
+                            <button
+                              key={candidate.id}
+                              onClick={() =>
+                                toggleCorrection(suggestion, candidate.id)
+                              }
+                              className={`px-2 py-0.5 rounded-full text-xs font-medium border ${
+                                isAccepted(suggestion, candidate.id)
+                                  ? "bg-green-100 border-green-300 text-green-800"
+                                  : "bg-white border-gray-300 text-gray-700 hover:bg-gray-100"
+                              }`}
+                            >
+                              {isAccepted(suggestion, candidate.id) ? "✓ " : ""}
+                              {candidate.name} (
+                              {Math.round(candidate.score * 100)}%)
+                            </button>
+                          ))
+                        )}
+                        {correction &&
+                          (aliasSaved ? (
+                            <span className="text-xs text-green-700">
+                              Saved as alias
+                            </span>
+                          ) : (
+                            <button
+                              onClick={() => handleSaveAlias(correction)}
+                              className="text-xs text-indigo-600 hover:text-indigo-700 underline"
+                            >
+                              Save as alias
+                            </button>
+                          ))}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          {fullValidation.errors.length > 0 && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                {fullValidation.errorGroups.byCode.map((group) => (
+                  <span
+                    key={group.code}
+                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+                  >
+                    {group.code}: {group.count}
+                  </span>
+                ))}
+              </div>
+              <div className="max-h-64 overflow-y-auto border border-gray-200 rounded">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-100 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-700">
+                        Row
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-700">
+                        Matric Number
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-700">
+                        Code
+                      </th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-700">
+                        Reason
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {fullValidation.errors.map((rowError, index) => (
+                      <tr key={index} className="border-t border-gray-200">
+                        <td className="px-3 py-1 text-gray-900">
+                          {rowError.rowNumber}
+                        </td>
+                        <td className="px-3 py-1 text-gray-900">
+                          {rowError.matricNumber || "-"}
+                        </td>
+                        <td className="px-3 py-1 text-gray-700">
+                          {rowError.code}
+                        </td>
+                        <td className="px-3 py-1 text-red-700">
+                          {rowError.reason}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <button
+                onClick={handleDownloadValidationErrors}
+                className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+              >
+                Download Failed Records
+              </button>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -1,10 +1,15 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
+import FailedRowsGrid from "./FailedRowsGrid";
+import { authFetch, isSignedIn } from "@/lib/api-client";
 
 interface JobSummaryProps {
   jobId: string;
   onNewUpload: () => void;
+  refreshKey?: number; // Change to reload, e.g. when the job completes
+  canResubmit?: boolean;
 }
 
 interface JobProgress {
@@ -13,6 +18,9 @@ interface JobProgress {
   totalRecords: number;
   processedRecords: number;
   insertedRecords: number;
+  updatedRecords: number;
+  unchangedRecords: number;
+  duplicateSkippedRecords: number;
   failedRecordsCount: number;
   currentRow: number;
   message: string;
@@ -21,18 +29,48 @@ interface JobProgress {
   endTime?: string;
 }
 
-export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
-  const [progress] = useState<JobProgress | null>(null);
+interface JobErrorSummary {
+  total: number;
+  byCode: Array<{ code: string; count: number }>;
+  byValue: Array<{
+    code: string;
+    field: string | null;
+    value: string | null;
+    count: number;
+  }>;
+  rows: Array<{
+    rowNumber: number;
+    matricNumber: string | null;
+    reason: string;
+    code: string;
+  }>;
+}
+
+export default function JobSummary({
+  jobId,
+  onNewUpload,
+  refreshKey = 0,
+  canResubmit = true,
+}: JobSummaryProps) {
+  const [progress, setProgress] = useState<JobProgress | null>(null);
+  const [status, setStatus] = useState<string>("");
+  const [parentJobId, setParentJobId] = useState<string | null>(null);
+  const [errorSummary, setErrorSummary] = useState<JobErrorSummary | null>(
+    null
+  );
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Fetch final job progress
+    // Fetch the stored job, which outlives the progress stream
     const fetchProgress = async () => {
       try {
-        const response = await fetch(`/api/progress?jobId=${jobId}`);
+        const response = await authFetch(`/api/jobs/${jobId}`);
         if (response.ok) {
-          // For completed jobs, we might need to get the final state differently
-          // This is a simplified version - in production you might store final states
+          const data = await response.json();
+          setProgress(data.job.progress);
+          setStatus(data.job.status);
+          setParentJobId(data.job.parentJobId);
+          setErrorSummary(data.job.errors);
         }
       } catch (error) {
         console.error("Failed to fetch job progress:", error);
@@ -42,7 +80,7 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
     };
 
     fetchProgress();
-  }, [jobId]);
+  }, [jobId, refreshKey]);
 
   const calculateSuccessRate = (inserted: number, total: number) => {
     if (total === 0) return 0;
@@ -66,25 +104,21 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
     return `${minutes}m ${seconds}s`;
   };
 
-  const handleDownloadErrors = async () => {
+  const downloadCsv = async (endpoint: string, fileName: string) => {
     try {
-      const token = localStorage.getItem("token");
-      if (!token) {
+      if (!isSignedIn()) {
         alert("Authentication required");
         return;
       }
-      const response = await fetch(`/api/download-errors?jobId=${jobId}`, {
+      const response = await authFetch(`${endpoint}?jobId=${jobId}`, {
         method: "GET",
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
       });
       if (response.ok) {
         const blob = await response.blob();
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
-        a.download = `failed-records-${jobId}.csv`;
+        a.download = fileName;
         document.body.appendChild(a);
         a.click();
         window.URL.revokeObjectURL(url);
@@ -99,6 +133,12 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
     }
   };
 
+  const handleDownloadErrors = () =>
+    downloadCsv("/api/download-errors", `failed-records-${jobId}.csv`);
+
+  const handleDownloadChanges = () =>
+    downloadCsv("/api/download-changes", `applied-changes-${jobId}.csv`);
+
   if (loading) {
     return (
       <div className="bg-white shadow rounded-lg p-6">
@@ -210,7 +250,9 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
                   </p>
                   <p className="text-2xl font-bold text-blue-900">
                     {calculateSuccessRate(
-                      progress.insertedRecords,
+                      progress.insertedRecords +
+                        progress.updatedRecords +
+                        progress.unchangedRecords,
                       progress.totalRecords
                     )}
                     %
@@ -232,6 +274,21 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
                   {progress.jobId}
                 </dd>
               </div>
+              {parentJobId && (
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">
+                    Corrections Of
+                  </dt>
+                  <dd className="text-sm font-mono">
+                    <Link
+                      href={`/jobs/${parentJobId}`}
+                      className="text-indigo-600 hover:text-indigo-700"
+                    >
+                      {parentJobId}
+                    </Link>
+                  </dd>
+                </div>
+              )}
               <div>
                 <dt className="text-sm font-medium text-gray-500">
                   Total Records
@@ -240,6 +297,30 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
                   {progress.totalRecords.toLocaleString()}
                 </dd>
               </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">
+                  Updated Records
+                </dt>
+                <dd className="text-sm text-gray-900">
+                  {progress.updatedRecords.toLocaleString()}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">
+                  Unchanged Records
+                </dt>
+                <dd className="text-sm text-gray-900">
+                  {progress.unchangedRecords.toLocaleString()}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">
+                  Duplicates Skipped
+                </dt>
+                <dd className="text-sm text-gray-900">
+                  {progress.duplicateSkippedRecords.toLocaleString()}
+                </dd>
+              </div>
               <div>
                 <dt className="text-sm font-medium text-gray-500">
                   Processing Duration
@@ -258,7 +339,9 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
                         : "bg-yellow-100 text-yellow-800"
                     }`}
                   >
-                    {progress.isComplete ? "Completed" : "In Progress"}
+                    {progress.isComplete
+                      ? status.replace("_", " ") || "Completed"
+                      : "In Progress"}
                   </span>
                 </dd>
               </div>
@@ -289,6 +372,28 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
               </button>
             )}
 
+            {progress.insertedRecords + progress.updatedRecords > 0 && (
+              <button
+                onClick={handleDownloadChanges}
+                className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium inline-flex items-center"
+              >
+                <svg
+                  className="h-4 w-4 mr-2"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                  />
+                </svg>
+                Download Applied Changes
+              </button>
+            )}
+
             <button
               onClick={() => window.print()}
               className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-md text-sm font-medium inline-flex items-center"
@@ -334,23 +439,83 @@ export default function JobSummary({ jobId, onNewUpload }: JobSummaryProps) {
                   <div className="mt-2 text-sm text-yellow-700">
                     <p>
                       {progress.failedRecordsCount} records failed to process.
-                      Common reasons include:
                     </p>
-                    <ul className="list-disc list-inside mt-1 space-y-1">
-                      <li>Missing required fields</li>
-                      <li>Invalid data formats</li>
-                      <li>Duplicate matric numbers</li>
-                      <li>Database lookup failures</li>
-                    </ul>
+                    {errorSummary && errorSummary.byCode.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {errorSummary.byCode.map((group) => (
+                          <span
+                            key={group.code}
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-900"
+                          >
+                            {group.code}: {group.count.toLocaleString()}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {errorSummary && errorSummary.byValue.length > 0 && (
+                      <div className="mt-3">
+                        <p className="font-medium">Most common causes:</p>
+                        <ul className="list-disc list-inside mt-1 space-y-1 max-h-48 overflow-y-auto">
+                          {errorSummary.byValue.map((group, index) => (
+                            <li key={index}>
+                              {group.code}
+                              {group.field ? ` in ${group.field}` : ""}
+                              {group.value ? ` "${group.value}"` : ""} (
+                              {group.count.toLocaleString()} rows)
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {errorSummary && errorSummary.rows.length > 0 && (
+                      <div className="mt-3 max-h-48 overflow-y-auto border border-yellow-200 rounded bg-white">
+                        <table className="min-w-full text-xs">
+                          <thead className="bg-yellow-100 sticky top-0">
+                            <tr>
+                              <th className="px-2 py-1 text-left">Row</th>
+                              <th className="px-2 py-1 text-left">
+                                Matric Number
+                              </th>
+                              <th className="px-2 py-1 text-left">Code</th>
+                              <th className="px-2 py-1 text-left">Reason</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {errorSummary.rows.map((row) => (
+                              <tr
+                                key={row.rowNumber}
+                                className="border-t border-yellow-100"
+                              >
+                                <td className="px-2 py-1">{row.rowNumber}</td>
+                                <td className="px-2 py-1">
+                                  {row.matricNumber || "-"}
+                                </td>
+                                <td className="px-2 py-1">{row.code}</td>
+                                <td className="px-2 py-1">{row.reason}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
                     <p className="mt-2">
-                      Download the failed records file to review and correct the
-                      data, then re-upload.
+                      Correct the rows below and re-submit them, or download the
+                      failed records file to review the data offline.
                     </p>
                   </div>
                 </div>
               </div>
             </div>
           )}
+
+          {/* Failed Row Corrections */}
+          {progress.isComplete && progress.failedRecordsCount > 0 && (
+            <FailedRowsGrid
+              key={refreshKey}
+              jobId={jobId}
+              canResubmit={canResubmit}
+            />
+          )}
         </div>
       ) : (
         <div className="text-center py-8">
@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { authFetch } from "@/lib/api-client";
+
+interface MappingProfileEditorProps {
+  canonicalFields: string[];
+  requiredFields: string[];
+  onSaved: (profileId: number) => void;
+  onCancel: () => void;
+}
+
+interface MappingRow {
+  sourceHeader: string;
+  canonicalField: string;
+}
+
+export default function MappingProfileEditor({
+  canonicalFields,
+  requiredFields,
+  onSaved,
+  onCancel,
+}: MappingProfileEditorProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rows, setRows] = useState<MappingRow[]>([
+    { sourceHeader: "", canonicalField: requiredFields[0] || "" },
+  ]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  const updateRow = (index: number, changes: Partial<MappingRow>) => {
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const addRow = () => {
+    setRows((prev) => [
+      ...prev,
+      { sourceHeader: "", canonicalField: canonicalFields[0] || "" },
+    ]);
+  };
+
+  const removeRow = (index: number) => {
+    setRows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+
+    try {
+      const response = await authFetch("/api/mapping-profiles", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name,
+          description,
+          entries: rows.filter((row) => row.sourceHeader.trim()),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Failed to save profile");
+        return;
+      }
+
+      onSaved(data.profileId);
+    } catch {
+      setError("Network error while saving profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+      <h3 className="text-md font-medium text-gray-900">
+        New Column Mapping Profile
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <input
+          type="text"
+          placeholder="Profile name (e.g. Faculty of Science export)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+        <input
+          type="text"
+          placeholder="Description (optional)"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600">
+          Map each header in the faculty file to the uploader field it
+          contains. Headers that already match a field name are recognised
+          automatically.
+        </p>
+        {rows.map((row, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              type="text"
+              placeholder="Header in file (e.g. MatricNo)"
+              value={row.sourceHeader}
+              onChange={(e) =>
+                updateRow(index, { sourceHeader: e.target.value })
+              }
+              className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
+            />
+            <span className="text-gray-400">→</span>
+            <select
+              value={row.canonicalField}
+              onChange={(e) =>
+                updateRow(index, { canonicalField: e.target.value })
+              }
+              className="flex-1 px-3 py-2 border border-gray-300 rounded text-sm"
+            >
+              {canonicalFields.map((field) => (
+                <option key={field} value={field}>
+                  {field}
+                  {requiredFields.includes(field) ? " *" : ""}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => removeRow(index)}
+              className="text-sm text-red-600 hover:text-red-700"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={addRow}
+          className="text-sm text-indigo-600 hover:text-indigo-700"
+        >
+          + Add header
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex space-x-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Profile"}
+        </button>
+        <button
+          onClick={onCancel}
+          className="bg-gray-200 hover:bg-gray-300 text-gray-800 px-4 py-2 rounded-md text-sm font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
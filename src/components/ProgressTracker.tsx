@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { authFetch, ensureSession, isSignedIn, usesBearerToken } from "@/lib/api-client";
 
 interface JobProgress {
   jobId: string;
@@ -8,105 +9,187 @@ interface JobProgress {
   totalRecords: number;
   processedRecords: number;
   insertedRecords: number;
+  updatedRecords: number;
+  unchangedRecords: number;
+  duplicateSkippedRecords: number;
   failedRecordsCount: number;
   currentRow: number;
   message: string;
   isComplete: boolean;
   startTime: string;
   endTime?: string;
+  status?: string;
+}
+
+// Job statuses that can be continued from their last checkpoint
+const RESUMABLE_STATUSES = ["interrupted", "failed", "cancelled"];
+
+interface RollbackResult {
+  complete: boolean;
+  deleted: number;
+  reverted: number;
+  conflicts: Array<{
+    matricNo: string;
+    action: string;
+    reason: string;
+  }>;
+  message: string;
 }
 
 interface ProgressTrackerProps {
   jobId: string;
   onComplete: () => void;
+  canCancel?: boolean;
+  canResume?: boolean;
+  canRollback?: boolean;
 }
 
 export default function ProgressTracker({
   jobId,
   onComplete,
+  canCancel = true,
+  canResume = true,
+  canRollback = false,
 }: ProgressTrackerProps) {
   const [progress, setProgress] = useState<JobProgress | null>(null);
   const [connected, setConnected] = useState(false);
   const [error, setError] = useState<string>("");
+  const [streamKey, setStreamKey] = useState(0);
+  const [resuming, setResuming] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [rollbackResult, setRollbackResult] = useState<RollbackResult | null>(
+    null
+  );
 
   useEffect(() => {
     if (!jobId) return;
 
-    console.log(`📡 ProgressTracker connecting to job: ${jobId}`);
+    let es: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let unmounted = false;
 
-    // Create EventSource for SSE
-    const es = new EventSource(`/api/progress?jobId=${jobId}`);
+    const connect = async () => {
+      console.log(`📡 ProgressTracker connecting to job: ${jobId}`);
 
-    es.onopen = () => {
-      console.log(`✅ ProgressTracker connected to SSE for job: ${jobId}`);
-      setConnected(true);
-      setError("");
-    };
-
-    es.onmessage = (event) => {
+      // Cookie sessions authenticate the EventSource themselves; bearer sessions cannot send an
+      // Authorization header with it, so the stream is opened with a token for this job
+      let streamToken = "";
       try {
-        const data = JSON.parse(event.data);
-        console.log(`📨 ProgressTracker received message:`, data);
-
-        if (data.type === "connected") {
-          console.log(`✅ SSE connection confirmed for job: ${jobId}`);
-          setConnected(true);
-        } else if (data.type === "waiting") {
-          setConnected(true);
-          // Show waiting message - create minimal progress object if none exists
-          setProgress((prev) =>
-            prev
-              ? { ...prev, message: data.message }
-              : {
-                  jobId,
-                  progress: 0,
-                  totalRecords: 0,
-                  processedRecords: 0,
-                  insertedRecords: 0,
-                  failedRecordsCount: 0,
-                  currentRow: 0,
-                  message: data.message,
-                  isComplete: false,
-                  startTime: new Date().toISOString(),
-                }
-          );
-        } else if (data.type === "progress" || data.type === "complete") {
-          setProgress(data);
-
-          if (data.isComplete) {
-            onComplete();
-            es.close();
+        if (usesBearerToken()) {
+          const response = await authFetch("/api/progress/token", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ jobId }),
+          });
+          const data = await response.json();
+
+          if (!response.ok) {
+            setError(data.error || "Failed to connect to progress updates");
+            return;
           }
-        } else if (data.type === "error") {
-          setError(data.message);
-          es.close();
+          streamToken = data.token;
+        } else if (!(await ensureSession())) {
+          setError("Session expired. Please log in again.");
+          return;
         }
-      } catch (err) {
-        console.error("Failed to parse SSE data:", err);
+      } catch {
+        setError("Failed to connect to progress updates");
+        return;
       }
-    };
 
-    es.onerror = () => {
-      setError("Connection lost. Retrying...");
-      setConnected(false);
+      if (unmounted) return;
+
+      // Create EventSource for SSE
+      const source = new EventSource(
+        `/api/progress?jobId=${encodeURIComponent(jobId)}` +
+          (streamToken ? `&token=${encodeURIComponent(streamToken)}` : "")
+      );
+      es = source;
+
+      source.onopen = () => {
+        console.log(`✅ ProgressTracker connected to SSE for job: ${jobId}`);
+        setConnected(true);
+        setError("");
+      };
+
+      source.onmessage = (event) => {
+        try {
+          const data = JSON.parse(event.data);
+          console.log(`📨 ProgressTracker received message:`, data);
+
+          if (data.type === "connected") {
+            console.log(`✅ SSE connection confirmed for job: ${jobId}`);
+            setConnected(true);
+          } else if (data.type === "waiting") {
+            setConnected(true);
+            // Show waiting message - create minimal progress object if none exists
+            setProgress((prev) =>
+              prev
+                ? { ...prev, message: data.message }
+                : {
+                    jobId,
+                    progress: 0,
+                    totalRecords: 0,
+                    processedRecords: 0,
+                    insertedRecords: 0,
+                    updatedRecords: 0,
+                    unchangedRecords: 0,
+                    duplicateSkippedRecords: 0,
+                    failedRecordsCount: 0,
+                    currentRow: 0,
+                    message: data.message,
+                    isComplete: false,
+                    startTime: new Date().toISOString(),
+                  }
+            );
+          } else if (data.type === "progress" || data.type === "complete") {
+            setProgress(data);
+
+            if (data.isComplete) {
+              onComplete();
+              source.close();
+            }
+          } else if (data.type === "error") {
+            setError(data.message);
+            source.close();
+          }
+        } catch (err) {
+          console.error("Failed to parse SSE data:", err);
+        }
+      };
+
+      source.onerror = () => {
+        setError("Connection lost. Retrying...");
+        setConnected(false);
+
+        // The browser retries with the same URL; once the server rejects it (e.g. the token
+        // expired) the stream is closed, so reconnect with a fresh token
+        if (source.readyState === EventSource.CLOSED) {
+          retryTimer = setTimeout(() => setStreamKey((key) => key + 1), 3000);
+        }
+      };
     };
 
+    connect();
+
     // Cleanup on unmount
     return () => {
-      es.close();
+      unmounted = true;
+      clearTimeout(retryTimer);
+      es?.close();
     };
-  }, [jobId, onComplete]);
+  }, [jobId, onComplete, streamKey]);
 
   const handleCancel = async () => {
     if (!progress || progress.isComplete) return;
 
     try {
-      const token = localStorage.getItem("token");
-      const response = await fetch("/api/cancel", {
+      const response = await authFetch("/api/cancel", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({ jobId }),
       });
@@ -119,19 +202,85 @@ export default function ProgressTracker({
     }
   };
 
-  const handleDownloadErrors = async () => {
+  const handleResume = async () => {
+    setResuming(true);
+
     try {
-      const token = localStorage.getItem("token");
-      if (!token) {
-        setError("Authentication required");
+      const response = await authFetch("/api/resume", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ jobId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setError(`Resume failed: ${errorData.error}`);
         return;
       }
 
-      const response = await fetch(`/api/download-errors?jobId=${jobId}`, {
-        method: "GET",
+      // Reconnect to the progress stream for the resumed job
+      setProgress((prev) =>
+        prev ? { ...prev, isComplete: false, message: "Resuming job..." } : prev
+      );
+      setStreamKey((key) => key + 1);
+    } catch {
+      setError("Failed to resume job");
+    } finally {
+      setResuming(false);
+    }
+  };
+
+  const handleRollback = async () => {
+    if (
+      !window.confirm(
+        "Roll back this job? Students it inserted will be deleted and fields it filled will be restored."
+      )
+    ) {
+      return;
+    }
+
+    setRollingBack(true);
+
+    try {
+      const response = await authFetch("/api/rollback", {
+        method: "POST",
         headers: {
-          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
         },
+        body: JSON.stringify({ jobId }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(`Rollback failed: ${data.error}`);
+        return;
+      }
+
+      setRollbackResult(data);
+      setProgress((prev) =>
+        prev && data.complete
+          ? { ...prev, status: "rolled_back", message: data.message }
+          : prev
+      );
+    } catch {
+      setError("Failed to roll back job");
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
+  const downloadCsv = async (endpoint: string, fileName: string) => {
+    try {
+      if (!isSignedIn()) {
+        setError("Authentication required");
+        return;
+      }
+
+      const response = await authFetch(`${endpoint}?jobId=${jobId}`, {
+        method: "GET",
       });
 
       if (response.ok) {
@@ -139,7 +288,7 @@ export default function ProgressTracker({
         const url = window.URL.createObjectURL(blob);
         const a = document.createElement("a");
         a.href = url;
-        a.download = `failed-records-${jobId}.csv`;
+        a.download = fileName;
         document.body.appendChild(a);
         a.click();
         window.URL.revokeObjectURL(url);
@@ -154,6 +303,12 @@ export default function ProgressTracker({
     }
   };
 
+  const handleDownloadErrors = () =>
+    downloadCsv("/api/download-errors", `failed-records-${jobId}.csv`);
+
+  const handleDownloadChanges = () =>
+    downloadCsv("/api/download-changes", `applied-changes-${jobId}.csv`);
+
   const formatDuration = (start: string, end?: string) => {
     const startTime = new Date(start);
     const endTime = end ? new Date(end) : new Date();
@@ -268,6 +423,28 @@ export default function ProgressTracker({
         </div>
       </div>
 
+      {/* Outcome Breakdown */}
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <div className="text-center">
+          <p className="text-xl font-semibold text-teal-600">
+            {(progress.updatedRecords ?? 0).toLocaleString()}
+          </p>
+          <p className="text-sm text-gray-600">Updated</p>
+        </div>
+        <div className="text-center">
+          <p className="text-xl font-semibold text-gray-600">
+            {(progress.unchangedRecords ?? 0).toLocaleString()}
+          </p>
+          <p className="text-sm text-gray-600">Unchanged</p>
+        </div>
+        <div className="text-center">
+          <p className="text-xl font-semibold text-yellow-600">
+            {(progress.duplicateSkippedRecords ?? 0).toLocaleString()}
+          </p>
+          <p className="text-sm text-gray-600">Duplicates Skipped</p>
+        </div>
+      </div>
+
       {/* Status Message */}
       <div className="bg-gray-50 rounded-lg p-4 mb-6">
         <div className="flex items-center">
@@ -303,7 +480,7 @@ export default function ProgressTracker({
 
       {/* Action Buttons */}
       <div className="flex space-x-3">
-        {!progress.isComplete && (
+        {canCancel && !progress.isComplete && (
           <button
             onClick={handleCancel}
             className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium"
@@ -312,6 +489,19 @@ export default function ProgressTracker({
           </button>
         )}
 
+        {canResume &&
+          progress.isComplete &&
+          progress.status &&
+          RESUMABLE_STATUSES.includes(progress.status) && (
+            <button
+              onClick={handleResume}
+              disabled={resuming}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {resuming ? "Resuming..." : "Resume Job"}
+            </button>
+          )}
+
         {progress.isComplete && progress.failedRecordsCount > 0 && (
           <button
             onClick={handleDownloadErrors}
@@ -320,7 +510,58 @@ export default function ProgressTracker({
             Download Failed Records
           </button>
         )}
+
+        {progress.isComplete &&
+          progress.insertedRecords + (progress.updatedRecords ?? 0) > 0 && (
+            <button
+              onClick={handleDownloadChanges}
+              className="bg-teal-600 hover:bg-teal-700 text-white px-4 py-2 rounded-md text-sm font-medium"
+            >
+              Download Applied Changes
+            </button>
+          )}
+
+        {canRollback &&
+          progress.isComplete &&
+          progress.status !== "rolled_back" &&
+          progress.insertedRecords + (progress.updatedRecords ?? 0) > 0 && (
+            <button
+              onClick={handleRollback}
+              disabled={rollingBack}
+              className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+            >
+              {rollingBack ? "Rolling Back..." : "Roll Back Job"}
+            </button>
+          )}
       </div>
+
+      {/* Rollback Result */}
+      {rollbackResult && (
+        <div
+          className={`mt-6 rounded-lg p-4 border ${
+            rollbackResult.complete
+              ? "bg-green-50 border-green-200"
+              : "bg-yellow-50 border-yellow-200"
+          }`}
+        >
+          <p className="text-sm font-medium text-gray-900">
+            {rollbackResult.message}
+          </p>
+          <p className="text-sm text-gray-700 mt-1">
+            {rollbackResult.deleted} inserted students removed,{" "}
+            {rollbackResult.reverted} updated students restored.
+          </p>
+          {rollbackResult.conflicts.length > 0 && (
+            <ul className="mt-3 max-h-48 overflow-y-auto text-sm text-yellow-800 space-y-1">
+              {rollbackResult.conflicts.map((conflict, index) => (
+                <li key={index}>
+                  {conflict.matricNo} ({conflict.action}): {conflict.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,180 @@
+// Browser-side session handling
+// Cookie sessions keep both tokens in HttpOnly cookies; bearer sessions keep them in localStorage
+
+export interface StoredSession {
+  token?: string; // Bearer sessions only
+  refreshToken?: string; // Bearer sessions only
+  expiresIn?: number; // Cookie sessions: seconds until the access cookie expires
+  user?: unknown;
+}
+
+const CSRF_COOKIE = 'csrf_token';
+const CSRF_HEADER = 'X-CSRF-Token';
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Refresh this long before the access cookie expires
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+let refreshing: Promise<boolean> | null = null;
+
+export function storeSession(session: StoredSession): void {
+  if (session.token && session.refreshToken) {
+    localStorage.setItem('token', session.token);
+    localStorage.setItem('refreshToken', session.refreshToken);
+    localStorage.removeItem('sessionExpiresAt');
+  } else {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    localStorage.setItem('sessionExpiresAt', String(Date.now() + (session.expiresIn ?? 0) * 1000));
+  }
+  if (session.user) {
+    localStorage.setItem('user', JSON.stringify(session.user));
+  }
+}
+
+export function clearSession(): void {
+  localStorage.removeItem('token');
+  localStorage.removeItem('refreshToken');
+  localStorage.removeItem('sessionExpiresAt');
+  localStorage.removeItem('user');
+}
+
+export function isSignedIn(): boolean {
+  return !!localStorage.getItem('user');
+}
+
+export function usesBearerToken(): boolean {
+  return !!localStorage.getItem('token');
+}
+
+/**
+ * fetch with the session's credentials attached
+ * An expired access token is renewed using the refresh token and the request retried once;
+ * if the session cannot be refreshed the user is sent back to the login page
+ */
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const stamp = sessionStamp();
+  const response = await fetch(input, withCredentials(init));
+  if (response.status !== 401) {
+    return response;
+  }
+
+  if (!await refreshSession(stamp)) {
+    clearSession();
+    window.location.href = '/login';
+    return response;
+  }
+
+  return fetch(input, withCredentials(init));
+}
+
+/**
+ * Make sure a cookie session's access cookie is still valid, for requests authFetch cannot retry such as EventSource
+ */
+export async function ensureSession(): Promise<boolean> {
+  const expiresAt = Number(localStorage.getItem('sessionExpiresAt'));
+  if (usesBearerToken() || !expiresAt || expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+    return true;
+  }
+  return refreshSession(sessionStamp());
+}
+
+/**
+ * Revoke the session on the server and forget it
+ */
+export async function logout(): Promise<void> {
+  const refreshToken = localStorage.getItem('refreshToken');
+  try {
+    await fetch('/api/auth/logout', withCredentials({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {})
+    }));
+  } catch (error) {
+    console.error('❌ Logout request failed:', error);
+  } finally {
+    clearSession();
+  }
+}
+
+function readCookie(name: string): string | null {
+  const entry = document.cookie.split('; ').find((cookie) => cookie.startsWith(`${name}=`));
+  return entry ? decodeURIComponent(entry.substring(name.length + 1)) : null;
+}
+
+// Bearer sessions send the access token; cookie sessions echo the CSRF cookie on state-changing requests
+function withCredentials(init: RequestInit): RequestInit {
+  const headers = new Headers(init.headers);
+  const token = localStorage.getItem('token');
+  const csrfToken = readCookie(CSRF_COOKIE);
+
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  } else if (csrfToken && !SAFE_METHODS.includes((init.method || 'GET').toUpperCase())) {
+    headers.set(CSRF_HEADER, csrfToken);
+  }
+  return { ...init, headers, credentials: 'same-origin' };
+}
+
+// Changes whenever the session is refreshed
+function sessionStamp(): string | null {
+  return localStorage.getItem('token') ?? localStorage.getItem('sessionExpiresAt');
+}
+
+// Concurrent requests that hit an expired token share one refresh, since each refresh token works only once
+function refreshSession(staleStamp: string | null): Promise<boolean> {
+  const current = sessionStamp();
+  if (current && current !== staleStamp) {
+    // Another request or tab has already refreshed
+    return Promise.resolve(true);
+  }
+
+  if (!refreshing) {
+    refreshing = withRefreshLock(async () => {
+      // Another tab may have refreshed while this one waited for the lock
+      const latest = sessionStamp();
+      if (latest && latest !== staleStamp) {
+        return true;
+      }
+      return requestRefresh();
+    }).finally(() => {
+      refreshing = null;
+    });
+  }
+  return refreshing;
+}
+
+// Tabs share the session, so refreshes are serialised across tabs where the Web Locks API is available
+async function withRefreshLock(task: () => Promise<boolean>): Promise<boolean> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request('session-refresh', task);
+  }
+  return task();
+}
+
+async function requestRefresh(): Promise<boolean> {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken && !isSignedIn()) {
+    return false;
+  }
+
+  try {
+    const response = await fetch('/api/auth/refresh', withCredentials({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {})
+    }));
+    // Another tab refreshed with the same token moments ago; retry with the session it stored
+    if (response.status === 409) {
+      return true;
+    }
+    if (!response.ok) {
+      return false;
+    }
+
+    storeSession(await response.json());
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_IDLE_DAYS } from './sessions';
+
+export const AUTH_COOKIE = 'auth_token';
+export const REFRESH_COOKIE = 'refresh_token';
+export const CSRF_COOKIE = 'csrf_token'; // Readable by the page so it can echo it back in CSRF_HEADER
+export const CSRF_HEADER = 'x-csrf-token';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export interface CookieTokens {
+  token: string;
+  refreshToken: string;
+  accessMaxAge: number; // Seconds, matching the access token's expiry
+}
+
+/**
+ * Store a session's tokens in cookies: the access token for every route, the refresh token only for /api/auth
+ * The CSRF token is kept across refreshes so requests already in flight still match
+ */
+export function setAuthCookies(response: NextResponse, tokens: CookieTokens, csrfToken?: string): void {
+  const secure = process.env.NODE_ENV === 'production';
+  const sessionMaxAge = SESSION_IDLE_DAYS * 24 * 60 * 60;
+
+  response.cookies.set(AUTH_COOKIE, tokens.token, {
+    httpOnly: true, secure, sameSite: 'strict', path: '/', maxAge: tokens.accessMaxAge
+  });
+  response.cookies.set(REFRESH_COOKIE, tokens.refreshToken, {
+    httpOnly: true, secure, sameSite: 'strict', path: '/api/auth', maxAge: sessionMaxAge
+  });
+  response.cookies.set(CSRF_COOKIE, csrfToken || crypto.randomBytes(32).toString('base64url'), {
+    httpOnly: false, secure, sameSite: 'strict', path: '/', maxAge: sessionMaxAge
+  });
+}
+
+export function clearAuthCookies(response: NextResponse): void {
+  response.cookies.set(AUTH_COOKIE, '', { path: '/', maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { path: '/api/auth', maxAge: 0 });
+  response.cookies.set(CSRF_COOKIE, '', { path: '/', maxAge: 0 });
+}
+
+/**
+ * Double-submit check for cookie-authenticated requests: state-changing methods must send
+ * the CSRF cookie's value in a header, which another site's page cannot read
+ */
+export function hasValidCsrfToken(request: NextRequest): boolean {
+  if (SAFE_METHODS.includes(request.method)) {
+    return true;
+  }
+
+  const cookie = Buffer.from(request.cookies.get(CSRF_COOKIE)?.value || '');
+  const header = Buffer.from(request.headers.get(CSRF_HEADER) || '');
+  if (cookie.length === 0 || cookie.length !== header.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(cookie, header);
+}
@@ -1,29 +1,47 @@
 import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { executeQuery } from './database';
+import { Permission, hasPermission } from './permissions';
+import { SessionService } from './sessions';
+import { AUTH_COOKIE, hasValidCsrfToken } from './auth-cookies';
+import { StaffRole } from './types';
 
 export interface User {
   id: number;
   email: string;
   name: string;
-  role: 'staff' | 'admin';
+  role: StaffRole;
+  sessionId?: number; // Session the access token was issued for
 }
 
 export interface AuthResult {
   success: boolean;
   user?: User;
-  token?: string;
+  token?: string; // Short-lived access token
+  refreshToken?: string; // Single-use token for /api/auth/refresh
+  raced?: boolean; // Refresh lost a race with another request, which already issued new tokens
   message?: string;
 }
 
+// Second argument Next passes to route handlers; params holds the dynamic segments, e.g. [jobId]
+export interface RouteContext<Params extends Record<string, string> = Record<string, string>> {
+  params: Promise<Params>;
+}
+
+export interface AuthOptions {
+  roles?: StaffRole[]; // Roles allowed to call the route; any signed-in user when omitted
+  permissions?: Permission[]; // Permissions the user's role must all be granted
+}
+
 export class AuthService {
   private static readonly JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-change-in-production';
-  private static readonly TOKEN_EXPIRY = '24h';
+  static readonly TOKEN_EXPIRY_SECONDS = 15 * 60;
+  private static readonly STREAM_TOKEN_EXPIRY = '5m';
 
   /**
-   * Authenticate user with email and password
+   * Authenticate user with email and password, starting a new session
    */
-  static async login(email: string, password: string): Promise<AuthResult> {
+  static async login(email: string, password: string, userAgent?: string | null): Promise<AuthResult> {
     try {
       // Query user from database (adjust table name as needed)
       const query = 'SELECT id, email, name, password_hash, role FROM staff_users WHERE email = ? AND active = 1';
@@ -41,16 +59,10 @@ export class AuthService {
         return { success: false, message: 'Invalid email or password' };
       }
 
-      // Generate JWT token
-      const tokenPayload = {
-        id: user.id,
-        email: user.email,
-        role: user.role
-      };
+      const session = await SessionService.createSession(user.id, userAgent);
+      const token = this.createAccessToken(user, session.sessionId);
 
-      const token = jwt.sign(tokenPayload, this.JWT_SECRET, { 
-        expiresIn: this.TOKEN_EXPIRY 
-      });
+      await executeQuery('UPDATE staff_users SET last_login = NOW() WHERE id = ?', [user.id]);
 
       return {
         success: true,
@@ -60,7 +72,8 @@ export class AuthService {
           name: user.name,
           role: user.role
         },
-        token
+        token,
+        refreshToken: session.refreshToken
       };
     } catch (error) {
       console.error('Login error:', error);
@@ -68,6 +81,50 @@ export class AuthService {
     }
   }
 
+  /**
+   * Swap a refresh token for a new access token and refresh token
+   */
+  static async refresh(refreshToken: string): Promise<AuthResult> {
+    try {
+      const session = await SessionService.rotate(refreshToken);
+      if (!session) {
+        return { success: false, message: 'Session expired or revoked' };
+      }
+      if ('raced' in session) {
+        return { success: false, raced: true, message: 'Session was refreshed by another request' };
+      }
+
+      const user = await this.getActiveUser(session.userId, session.sessionId);
+      if (!user) {
+        await SessionService.revokeSession(session.sessionId);
+        return { success: false, message: 'Session expired or revoked' };
+      }
+
+      return {
+        success: true,
+        user,
+        token: this.createAccessToken(user, session.sessionId),
+        refreshToken: session.refreshToken
+      };
+    } catch (error) {
+      console.error('Token refresh error:', error);
+      return { success: false, message: 'Authentication failed' };
+    }
+  }
+
+  /**
+   * End the session a refresh token belongs to; access tokens already issued for it stop working too
+   */
+  static async logout(refreshToken: string): Promise<boolean> {
+    return SessionService.revokeByRefreshToken(refreshToken);
+  }
+
+  private static createAccessToken(user: { id: number; email: string; role: StaffRole }, sessionId: number): string {
+    return jwt.sign({ id: user.id, email: user.email, role: user.role, sid: sessionId }, this.JWT_SECRET, {
+      expiresIn: this.TOKEN_EXPIRY_SECONDS
+    });
+  }
+
   /**
    * Verify JWT token and return user info
    */
@@ -82,26 +139,68 @@ export class AuthService {
       });
       
       const decoded = jwt.verify(token, this.JWT_SECRET) as any;
+
+      // Stream tokens only open the progress stream they were issued for
+      if (decoded.purpose || !decoded.sid) {
+        return null;
+      }
       
-      // Optionally re-query user to ensure they're still active
-      const query = 'SELECT id, email, name, role FROM staff_users WHERE id = ? AND active = 1';
-      const users = await executeQuery<any>(query, [decoded.id]);
-      
-      if (users.length === 0) {
+      return await this.getActiveUser(decoded.id, decoded.sid);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Short-lived token for one job's progress stream, since EventSource cannot send an Authorization header
+   */
+  static createStreamToken(jobId: string, user: User): string {
+    return jwt.sign({ id: user.id, sid: user.sessionId, jobId, purpose: 'progress' }, this.JWT_SECRET, {
+      expiresIn: this.STREAM_TOKEN_EXPIRY
+    });
+  }
+
+  /**
+   * User a progress stream token was issued to, if it is valid for this job and the user is still active
+   */
+  static async verifyStreamToken(token: string, jobId: string): Promise<User | null> {
+    try {
+      const decoded = jwt.verify(token, this.JWT_SECRET) as { id: number; sid?: number; jobId?: string; purpose?: string };
+      if (decoded.purpose !== 'progress' || decoded.jobId !== jobId || !decoded.sid) {
         return null;
       }
 
-      return {
-        id: users[0].id,
-        email: users[0].email,
-        name: users[0].name,
-        role: users[0].role
-      };
+      return await this.getActiveUser(decoded.id, decoded.sid);
     } catch {
       return null;
     }
   }
 
+  /**
+   * Re-query the user and session so deactivated accounts and revoked sessions are rejected even with an unexpired token
+   */
+  private static async getActiveUser(id: number, sessionId: number): Promise<User | null> {
+    const query = `
+      SELECT u.id, u.email, u.name, u.role
+      FROM staff_users u
+      JOIN staff_sessions s ON s.user_id = u.id
+      WHERE u.id = ? AND u.active = 1 AND s.id = ? AND s.revoked_at IS NULL AND s.expires_at > NOW()
+    `;
+    const users = await executeQuery<Pick<User, 'id' | 'email' | 'name' | 'role'>>(query, [id, sessionId]);
+
+    if (users.length === 0) {
+      return null;
+    }
+
+    return {
+      id: users[0].id,
+      email: users[0].email,
+      name: users[0].name,
+      role: users[0].role,
+      sessionId
+    };
+  }
+
   /**
    * Hash password for storage
    */
@@ -112,8 +211,9 @@ export class AuthService {
 
   /**
    * Create a new staff user (for admin use)
+   * @returns the new user's ID, or null if the insert failed
    */
-  static async createUser(email: string, password: string, name: string, role: 'staff' | 'admin' = 'staff'): Promise<boolean> {
+  static async createUser(email: string, password: string, name: string, role: StaffRole = 'staff'): Promise<number | null> {
     try {
       const hashedPassword = await this.hashPassword(password);
       
@@ -122,11 +222,11 @@ export class AuthService {
         VALUES (?, ?, ?, ?, 1, NOW())
       `;
       
-      await executeQuery(query, [email.toLowerCase().trim(), hashedPassword, name.trim(), role]);
-      return true;
+      const result = await executeQuery(query, [email.toLowerCase().trim(), hashedPassword, name.trim(), role]);
+      return (result as unknown as { insertId: number }).insertId;
     } catch (error) {
       console.error('User creation error:', error);
-      return false;
+      return null;
     }
   }
 
@@ -143,17 +243,25 @@ export class AuthService {
 
 /**
  * Middleware to protect API routes for Next.js App Router
+ * Accepts a bearer token or the HttpOnly auth cookie; cookie requests that change state must pass the CSRF check
+ * Pass `roles` or `permissions` to restrict the route; other users get 403
  */
-export function withAuth(handler: (req: any, user: User) => Promise<any>) {
-  return async (req: any) => {
+export function withAuth<Params extends Record<string, string> = Record<string, string>>(
+  handler: (req: any, user: User, context: RouteContext<Params>) => Promise<any>,
+  options: AuthOptions = {}
+) {
+  return async (req: any, context: RouteContext<Params>) => {
     try {
       const authHeader = req.headers.get('authorization');
-      const token = AuthService.extractTokenFromHeader(authHeader);
+      const bearerToken = AuthService.extractTokenFromHeader(authHeader);
+      const cookieToken: string | undefined = req.cookies?.get(AUTH_COOKIE)?.value;
+      const token = bearerToken || cookieToken;
       
       console.log('🔐 Auth middleware check:', {
         hasAuthHeader: !!authHeader,
         authHeaderPreview: authHeader?.substring(0, 20) + '...',
         hasToken: !!token,
+        fromCookie: !bearerToken && !!cookieToken,
         url: req.url,
         method: req.method
       });
@@ -166,6 +274,15 @@ export function withAuth(handler: (req: any, user: User) => Promise<any>) {
         });
       }
 
+      // Browsers attach cookies to cross-site requests too, unlike an Authorization header
+      if (!bearerToken && !hasValidCsrfToken(req)) {
+        console.error(`❌ Missing or invalid CSRF token for ${req.method} ${req.url}`);
+        return new Response(JSON.stringify({ error: 'Invalid CSRF token' }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
       const user = await AuthService.verifyToken(token);
       
       if (!user) {
@@ -176,9 +293,19 @@ export function withAuth(handler: (req: any, user: User) => Promise<any>) {
         });
       }
 
+      const allowed = (!options.roles || options.roles.includes(user.role)) &&
+        (options.permissions || []).every(permission => hasPermission(user.role, permission));
+      if (!allowed) {
+        console.error(`❌ ${user.email} (${user.role}) is not allowed to ${req.method} ${req.url}`);
+        return new Response(JSON.stringify({ error: 'You do not have permission to perform this action' }), {
+          status: 403,
+          headers: { 'Content-Type': 'application/json' }
+        });
+      }
+
       console.log('✅ Auth successful for user:', user.email);
       // Call the protected handler with user info
-      return handler(req, user);
+      return handler(req, user, context);
     } catch (error) {
       console.error('Auth middleware error:', error);
       return new Response(JSON.stringify({ error: 'Authentication error' }), {
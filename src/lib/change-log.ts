@@ -0,0 +1,92 @@
+import mysql from 'mysql2/promise';
+import Papa from 'papaparse';
+import { executeQuery } from './database';
+import { ChangeAction, FieldChange, UploadChangeLogEntry } from './types';
+
+export interface NewChangeLogEntry {
+  jobId: string;
+  userId: number | null;
+  matricNo: string;
+  serialId: number;
+  action: ChangeAction;
+  changes: FieldChange[];
+}
+
+// Fields whose values are never written to the applied-changes CSV
+const REDACTED_FIELDS = ['password'];
+
+export class ChangeLogService {
+
+  /**
+   * Record an insert or update inside the transaction that made it,
+   * so the journal entry commits or rolls back together with the change
+   */
+  static async record(connection: mysql.PoolConnection, entry: NewChangeLogEntry): Promise<void> {
+    if (entry.changes.length === 0) {
+      return;
+    }
+
+    await connection.execute(
+      `INSERT INTO upload_change_log (job_id, user_id, matric_no, serial_id, action, changes)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [entry.jobId, entry.userId, entry.matricNo, entry.serialId, entry.action, JSON.stringify(entry.changes)]
+    );
+  }
+
+  /**
+   * Record several inserts or updates with one multi-row INSERT inside the transaction that made them
+   */
+  static async recordMany(connection: mysql.PoolConnection, entries: NewChangeLogEntry[]): Promise<void> {
+    const recorded = entries.filter(entry => entry.changes.length > 0);
+    if (recorded.length === 0) {
+      return;
+    }
+
+    await connection.query(
+      'INSERT INTO upload_change_log (job_id, user_id, matric_no, serial_id, action, changes) VALUES ?',
+      [recorded.map(entry => [entry.jobId, entry.userId, entry.matricNo, entry.serialId, entry.action, JSON.stringify(entry.changes)])]
+    );
+  }
+
+  /**
+   * All journal entries for a job, oldest first
+   */
+  static async getJobChanges(jobId: string): Promise<UploadChangeLogEntry[]> {
+    const rows = await executeQuery<UploadChangeLogEntry>(
+      'SELECT * FROM upload_change_log WHERE job_id = ? ORDER BY id',
+      [jobId]
+    );
+
+    return rows.map(row => ({
+      ...row,
+      changes: typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes
+    }));
+  }
+
+  /**
+   * Flatten journal entries to one CSV line per changed field
+   * Password hashes are redacted
+   */
+  static toCsv(entries: UploadChangeLogEntry[]): string {
+    const lines = entries.flatMap(entry =>
+      (entry.changes as FieldChange[]).map(change => {
+        const redacted = REDACTED_FIELDS.includes(change.field);
+        return {
+          matric_no: entry.matric_no,
+          serial_id: entry.serial_id,
+          action: entry.action,
+          table: change.table,
+          field: change.field,
+          before: redacted && change.before !== null ? '[redacted]' : change.before ?? '',
+          after: redacted && change.after !== null ? '[redacted]' : change.after ?? '',
+          changed_at: new Date(entry.created_at).toISOString(),
+          rolled_back_at: entry.rolled_back_at ? new Date(entry.rolled_back_at).toISOString() : ''
+        };
+      })
+    );
+
+    return Papa.unparse(lines, {
+      columns: ['matric_no', 'serial_id', 'action', 'table', 'field', 'before', 'after', 'changed_at', 'rolled_back_at']
+    });
+  }
+}
@@ -0,0 +1,195 @@
+import { executeQuery, executeTransaction } from './database';
+import { ColumnMappingEntry, ColumnMappingProfile, CsvStudentRecord } from './types';
+
+export type CanonicalField = keyof CsvStudentRecord;
+
+// Every header CsvProcessor understands, in template order
+export const CANONICAL_FIELDS: CanonicalField[] = [
+  'S/N', 'Application Number', 'Matric Number', 'Last Name', 'First Name', 'Othernames',
+  'Gender', 'DoB', 'Marital Status', 'Religion', 'Phone', 'Email', 'Contact Address',
+  'Postal Address', 'Profession', 'Year Of Entry', 'State Of Origin', 'LGA', 'Nationality',
+  'Faculty', 'Department', 'Programme', 'Programme Duration', 'Entry Mode', 'Current Level',
+  'Mode Of Study', 'Interective Center', 'Exam Center', 'Teaching Subject', 'Verification Status'
+];
+
+export const REQUIRED_FIELDS: CanonicalField[] = [
+  'Matric Number', 'Last Name', 'First Name', 'Gender', 'DoB', 'Year Of Entry', 'Department'
+];
+
+// Lower-cased source header -> canonical field
+export type ColumnMapping = Map<string, CanonicalField>;
+
+export interface MappingProfileWithEntries extends ColumnMappingProfile {
+  entries: Array<{ sourceHeader: string; canonicalField: CanonicalField }>;
+}
+
+export interface CreateProfileResult {
+  success: boolean;
+  profileId?: number;
+  message?: string;
+}
+
+const canonicalByLowerCase = new Map<string, CanonicalField>(
+  CANONICAL_FIELDS.map(field => [field.toLowerCase(), field])
+);
+
+export class ColumnMappingService {
+
+  /**
+   * List all mapping profiles with their header entries
+   */
+  static async listProfiles(): Promise<MappingProfileWithEntries[]> {
+    const profiles = await executeQuery<ColumnMappingProfile>(
+      'SELECT id, name, description, created_by, created_at FROM column_mapping_profiles ORDER BY name'
+    );
+    const entries = await executeQuery<ColumnMappingEntry>(
+      'SELECT profile_id, source_header, canonical_field FROM column_mapping_entries ORDER BY id'
+    );
+
+    return profiles.map(profile => ({
+      ...profile,
+      entries: entries
+        .filter(entry => entry.profile_id === profile.id)
+        .map(entry => ({ sourceHeader: entry.source_header, canonicalField: entry.canonical_field }))
+    }));
+  }
+
+  /**
+   * Load the header mapping for a profile
+   * Returns an empty mapping when no profile is selected
+   */
+  static async getMapping(profileId?: number | null): Promise<ColumnMapping> {
+    const mapping: ColumnMapping = new Map();
+    if (!profileId) {
+      return mapping;
+    }
+
+    const profiles = await executeQuery<ColumnMappingProfile>(
+      'SELECT id FROM column_mapping_profiles WHERE id = ?',
+      [profileId]
+    );
+    if (profiles.length === 0) {
+      throw new Error(`Column mapping profile ${profileId} not found`);
+    }
+
+    const entries = await executeQuery<ColumnMappingEntry>(
+      'SELECT source_header, canonical_field FROM column_mapping_entries WHERE profile_id = ?',
+      [profileId]
+    );
+
+    for (const entry of entries) {
+      mapping.set(entry.source_header.trim().toLowerCase(), entry.canonical_field);
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Create a mapping profile with its source header -> canonical field entries
+   */
+  static async createProfile(
+    name: string,
+    description: string | null,
+    entries: Array<{ sourceHeader: string; canonicalField: string }>,
+    createdBy: number
+  ): Promise<CreateProfileResult> {
+    if (!name?.trim()) {
+      return { success: false, message: 'Profile name is required' };
+    }
+
+    const cleanEntries = entries
+      .map(entry => ({ sourceHeader: entry.sourceHeader?.trim(), canonicalField: entry.canonicalField }))
+      .filter(entry => entry.sourceHeader);
+
+    if (cleanEntries.length === 0) {
+      return { success: false, message: 'At least one header mapping is required' };
+    }
+
+    const unknownFields = cleanEntries.filter(entry => !CANONICAL_FIELDS.includes(entry.canonicalField as CanonicalField));
+    if (unknownFields.length > 0) {
+      return { success: false, message: `Unknown canonical fields: ${unknownFields.map(e => e.canonicalField).join(', ')}` };
+    }
+
+    const sourceHeaders = new Set<string>();
+    for (const entry of cleanEntries) {
+      const key = entry.sourceHeader.toLowerCase();
+      if (sourceHeaders.has(key)) {
+        return { success: false, message: `Source header mapped more than once: ${entry.sourceHeader}` };
+      }
+      sourceHeaders.add(key);
+    }
+
+    const existing = await executeQuery('SELECT id FROM column_mapping_profiles WHERE name = ?', [name.trim()]);
+    if (existing.length > 0) {
+      return { success: false, message: 'A profile with this name already exists' };
+    }
+
+    const profileId = await executeTransaction(async (connection) => {
+      const [result] = await connection.execute(
+        'INSERT INTO column_mapping_profiles (name, description, created_by) VALUES (?, ?, ?)',
+        [name.trim(), description?.trim() || null, createdBy]
+      );
+      const insertId = (result as { insertId: number }).insertId;
+
+      for (const entry of cleanEntries) {
+        await connection.execute(
+          'INSERT INTO column_mapping_entries (profile_id, source_header, canonical_field) VALUES (?, ?, ?)',
+          [insertId, entry.sourceHeader, entry.canonicalField]
+        );
+      }
+
+      return insertId;
+    });
+
+    return { success: true, profileId };
+  }
+
+  /**
+   * Rename a parsed row's headers to canonical fields
+   * Headers matching a canonical field case-insensitively are normalised to its exact spelling;
+   * unmapped headers are kept as they are
+   */
+  static applyMapping<T extends object>(row: T, mapping: ColumnMapping): CsvStudentRecord {
+    const mapped: Record<string, unknown> = {};
+
+    for (const [header, value] of Object.entries(row)) {
+      const field = this.resolveHeader(header, mapping) || header;
+      // Do not let an empty duplicate column overwrite a value already mapped to the same field
+      if (mapped[field] !== undefined && mapped[field] !== '' && (value === undefined || value === '')) {
+        continue;
+      }
+      mapped[field] = value;
+    }
+
+    return mapped as unknown as CsvStudentRecord;
+  }
+
+  /**
+   * Keep only the canonical fields of a row edited by hand, as trimmed text
+   */
+  static toCanonicalRecord(data: Record<string, unknown>): CsvStudentRecord {
+    const record: Record<string, string> = {};
+
+    for (const field of CANONICAL_FIELDS) {
+      const value = data[field];
+      if (value !== undefined && value !== null) {
+        record[field] = String(value).trim();
+      }
+    }
+
+    return record as unknown as CsvStudentRecord;
+  }
+
+  /**
+   * Required canonical fields not provided by the given headers
+   */
+  static findMissingFields(headers: string[], mapping: ColumnMapping): CanonicalField[] {
+    const provided = new Set(headers.map(header => this.resolveHeader(header, mapping)));
+    return REQUIRED_FIELDS.filter(field => !provided.has(field));
+  }
+
+  private static resolveHeader(header: string, mapping: ColumnMapping): CanonicalField | undefined {
+    const key = header.trim().toLowerCase();
+    return mapping.get(key) || canonicalByLowerCase.get(key);
+  }
+}
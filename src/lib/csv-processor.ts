@@ -1,22 +1,127 @@
 import Papa from 'papaparse';
 import bcrypt from 'bcryptjs';
+import mysql from 'mysql2/promise';
 import fs from 'fs';
 import path from 'path';
 import { executeTransaction } from './database';
 import { DatabaseLookups } from './lookups';
+import { LookupCache } from './lookup-cache';
+import { ColumnMapping, ColumnMappingService, REQUIRED_FIELDS } from './column-mapping';
+import { SpreadsheetReader } from './spreadsheet-reader';
+import { ChangeLogService } from './change-log';
+import { RowProcessingError, RowValidationError, classifyProcessingError } from './processing-errors';
+import { LookupCorrection, LookupField, UnknownLookup, lookupCorrectionKey } from './lookup-suggestions';
+import {
+  DEFAULT_UPDATE_POLICY,
+  ExistingStudentValues,
+  UPDATABLE_FIELDS,
+  UpdatePolicy,
+  UpdatePolicyService,
+  normalizeValue
+} from './update-policy';
 import { 
   CsvStudentRecord, 
   DlcStudent, 
   DlcStudentId, 
   ProcessingError, 
-  JobProgress 
+  JobProgress,
+  JobCheckpoint,
+  SpreadsheetCellValue,
+  FieldChange
 } from './types';
 
+// Result of writing one record to dlc_student / dlc_student_id
+export type UpsertOutcome = 'inserted' | 'updated' | 'unchanged';
+
+// dlc_student columns read before applying the update policy
+const STUDENT_UPDATE_COLUMNS = Object.entries(UPDATABLE_FIELDS)
+  .filter(([, table]) => table === 'dlc_student')
+  .map(([field]) => field);
+
+// dlc_student columns written for a new student
+const STUDENT_INSERT_COLUMNS = [
+  'applicantNo', 'lastName', 'firstName', 'middleName', 'gender', 'date_of_birth',
+  'maritalStatus', 'religion', 'phoneNo', 'emailAddress', 'application_session',
+  'course_of_study', 'country', 'studyMode', 'password', 'profession', 'lga_origin'
+] as const;
+
+// Rows per multi-row INSERT, keeping each statement well under MySQL's placeholder limit
+const INSERT_CHUNK_SIZE = 1000;
+
+// A row read from the upload, numbered by its row in the source file with the header as row 1
+// (sheet rows for workbooks, so blank rows before it count too)
+type ParsedRow = CsvStudentRecord & { rowNumber: number };
+
+// A validated row, ready to be written
+interface PreparedRecord {
+  row: ParsedRow;
+  student: DlcStudent;
+  studentId: DlcStudentId;
+}
+
+// An existing student's current values, as read by findExistingStudents
+type ExistingStudent = ExistingStudentValues & { serialID: number; matric_no: string };
+
+/**
+ * Matric numbers compare case-insensitively in MySQL, so existing students are keyed the same way
+ */
+function matricKey(matricNo: string): string {
+  return matricNo.trim().toLowerCase();
+}
+
+// Result of validating one row: the prepared record (null for a skipped duplicate) or the error it failed with
+interface RowOutcome {
+  record?: { student: DlcStudent; studentId: DlcStudentId } | null;
+  error?: Error;
+}
+
+/**
+ * Map items with at most `limit` calls in flight; items are started in order and results keep their positions
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workers = Math.min(items.length, Math.max(1, Math.floor(limit) || 1));
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workers }, run));
+  return results;
+}
+
+// Ceilings for the per-upload batch size and worker count, so one request cannot hold a huge
+// transaction open or start an unbounded number of concurrent queries
+export const MAX_BATCH_SIZE = parseInt(process.env.MAX_BATCH_SIZE || '2000') || 2000;
+export const MAX_CONCURRENCY = parseInt(process.env.MAX_WORKER_CONCURRENCY || '16') || 16;
+
+/**
+ * Keep a requested batch size or worker count between 1 and its ceiling
+ */
+export function clampLimit(value: number, max: number): number {
+  return Math.min(max, Math.max(1, Math.floor(value) || 1));
+}
+
 export interface ProcessingOptions {
-  dryRun?: boolean;
+  dryRun?: boolean; // Run the real INSERT/UPDATE statements, then roll each transaction back
+  validateOnly?: boolean; // Run validation and lookups for every row without any database writes
   batchSize?: number;
+  concurrency?: number; // Rows of a batch validated and prepared at the same time
+  mappingProfileId?: number;
+  updatePolicy?: UpdatePolicy; // How existing students are updated (defaults to filling empty fields)
+  userId?: number | null; // Staff user recorded against change log entries
+  lookupCorrections?: LookupCorrection[]; // Accepted fuzzy suggestions for unknown course, state and LGA names
+  sheetName?: string; // Worksheet to read for .xlsx/.ods uploads (defaults to the first sheet)
+  lookupCache?: LookupCache; // Reference tables already loaded by another processor, e.g. the job whose rows are validated
+  failedCsvPath?: string;
+  resumeFrom?: JobCheckpoint;
   onProgress?: (progress: JobProgress) => void;
   onError?: (error: ProcessingError) => void;
+  onCheckpoint?: (checkpoint: JobCheckpoint) => void;
 }
 
 export class CsvProcessor {
@@ -27,14 +132,24 @@ export class CsvProcessor {
   private failedCsvPath: string;
   private isCancelled = false;
   private processedMatricNumbers = new Set<string>(); // Track processed matric numbers
+  private columnMapping: ColumnMapping = new Map();
+  private updatePolicy: UpdatePolicy;
+  private lookupCorrections = new Map<string, number>();
+  private unknownLookups = new Map<string, UnknownLookup>();
+  private lookups: LookupCache; // Reference tables loaded once for this job
+  private streamPosition: { bytesRead: number; totalBytes: number } | null = null; // Set while a CSV file streams
 
   constructor(jobId: string, options: ProcessingOptions = {}) {
     this.jobId = jobId;
     this.options = {
       dryRun: false,
       batchSize: parseInt(process.env.BATCH_SIZE || '500'),
+      concurrency: parseInt(process.env.WORKER_CONCURRENCY || '4') || 4,
       ...options
     };
+    // Stored jobs may predate the ceilings, so resumed and re-submitted jobs are clamped too
+    this.options.batchSize = clampLimit(this.options.batchSize!, MAX_BATCH_SIZE);
+    this.options.concurrency = clampLimit(this.options.concurrency!, MAX_CONCURRENCY);
 
     this.progress = {
       jobId,
@@ -42,6 +157,9 @@ export class CsvProcessor {
       totalRecords: 0,
       processedRecords: 0,
       insertedRecords: 0,
+      updatedRecords: 0,
+      unchangedRecords: 0,
+      duplicateSkippedRecords: 0,
       failedRecordsCount: 0,
       currentRow: 0,
       message: 'Job created, waiting to start processing...',
@@ -49,6 +167,18 @@ export class CsvProcessor {
       startTime: new Date()
     };
 
+    // Continue counting from the checkpoint when resuming an interrupted job
+    if (this.options.resumeFrom) {
+      this.progress = {
+        ...this.progress,
+        ...this.options.resumeFrom.progress,
+        jobId,
+        isComplete: false,
+        endTime: undefined,
+        message: `Resuming after row ${this.options.resumeFrom.lastCommittedRow}...`
+      };
+    }
+
     // Emit initial progress immediately
     this.emitProgress();
 
@@ -57,7 +187,18 @@ export class CsvProcessor {
     if (!fs.existsSync(tempDir)) {
       fs.mkdirSync(tempDir, { recursive: true });
     }
-    this.failedCsvPath = path.join(tempDir, `failed_records_${jobId}.csv`);
+    this.failedCsvPath = this.options.failedCsvPath || path.join(tempDir, `failed_records_${jobId}.csv`);
+
+    // Re-check the policy against its allowlist, since it may come from a stored job
+    this.updatePolicy = this.options.updatePolicy
+      ? UpdatePolicyService.resolve(this.options.updatePolicy.mode, this.options.updatePolicy.fields)
+      : DEFAULT_UPDATE_POLICY;
+
+    for (const correction of this.options.lookupCorrections || []) {
+      this.lookupCorrections.set(lookupCorrectionKey(correction.field, correction.value), correction.id);
+    }
+
+    this.lookups = this.options.lookupCache ?? new LookupCache();
   }
 
   /**
@@ -70,89 +211,85 @@ export class CsvProcessor {
   }
 
   /**
-   * Count total records in CSV file for accurate progress tracking
-   */
-  private async countTotalRecords(filePath: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      let recordCount = 0;
-      const stream = fs.createReadStream(filePath);
-      
-      Papa.parse(stream, {
-        header: true,
-        skipEmptyLines: true,
-        step: () => {
-          recordCount++;
-        },
-        complete: () => {
-          this.progress.totalRecords = recordCount;
-          console.log(`📊 Counted ${recordCount} total records`);
-          resolve();
-        },
-        error: (error) => {
-          console.error('❌ Failed to count records:', error);
-          reject(error);
-        }
-      });
-    });
-  }
-
-  /**
-   * Process CSV file from file path
+   * Process CSV, XLSX or ODS file from file path
    */
   public async processFile(filePath: string): Promise<void> {
     console.log(`🚀 Starting CSV processing for job ${this.jobId}`);
     console.log(`📁 File path: ${filePath}`);
     console.log(`📦 Batch size: ${this.options.batchSize}`);
+    console.log(`🧵 Concurrency: ${this.options.concurrency}`);
     console.log(`🧪 Dry run: ${this.options.dryRun}`);
+    console.log(`🔎 Validate only: ${!!this.options.validateOnly}`);
+    console.log(`📝 Update policy: ${this.updatePolicy.mode} (${this.updatePolicy.fields.join(', ') || 'no fields'})`);
+    const resumeAfterRow = this.options.resumeFrom?.lastCommittedRow || 0;
+    if (resumeAfterRow > 0) {
+      console.log(`⏩ Resuming after committed row ${resumeAfterRow}`);
+    }
     
-    // Count total records first for accurate progress tracking
-    this.progress.message = 'Counting total records...';
+    // Load the column mapping profile so faculty-specific headers resolve to canonical fields
+    this.columnMapping = await ColumnMappingService.getMapping(this.options.mappingProfileId);
+    if (this.columnMapping.size > 0) {
+      console.log(`🗺️ Using column mapping profile ${this.options.mappingProfileId} (${this.columnMapping.size} headers)`);
+    }
+
+    // Preload reference tables so a missing table fails the job rather than every row
+    this.progress.message = 'Loading reference data...';
     this.emitProgress();
-    
-    try {
-      await this.countTotalRecords(filePath);
-      console.log(`📊 Actual total records counted: ${this.progress.totalRecords}`);
-    } catch {
-      console.error('Failed to count records, using dynamic counting');
-      this.progress.totalRecords = 0; // Will be updated as we process
+    await this.lookups.ensureLoaded();
+
+    if (SpreadsheetReader.isWorkbookFile(filePath)) {
+      return this.processWorkbook(filePath, resumeAfterRow);
     }
-    
+
     // Brief delay to ensure everything is initialized
     console.log(`⏳ Initializing processing...`);
     this.progress.message = 'Initializing CSV processing...';
     this.emitProgress();
-    await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second
+    await this.pause(1000); // 1 second
     console.log(`🚀 Starting CSV parsing...`);
     
     return new Promise((resolve, reject) => {
+      // The file is read once: the parser and the file stream are paused while each batch
+      // is written, and progress comes from how far into the file the stream has read
+      const totalBytes = fs.statSync(filePath).size;
       const stream = fs.createReadStream(filePath);
-      const batch: CsvStudentRecord[] = [];
-      let rowNumber = 0;
+      let batch: ParsedRow[] = [];
+      let batchNumber = 1;
+      let rowsRead = 0;
       let headerProcessed = false;
+      let failed = false;
+
+      // Papa calls complete synchronously on abort, so mark the failure first
+      const fail = (error: Error, parser?: Papa.Parser) => {
+        failed = true;
+        parser?.abort();
+        stream.destroy();
+        reject(error);
+      };
 
       Papa.parse(stream, {
         header: true,
         skipEmptyLines: true,
-        step: (result: Papa.ParseStepResult<CsvStudentRecord>) => {
+        step: (result: Papa.ParseStepResult<CsvStudentRecord>, parser: Papa.Parser) => {
+          if (failed) {
+            return;
+          }
           if (this.isCancelled) {
+            parser.abort(); // Completes with the rows collected so far, which processBatch skips
+            stream.destroy();
             return;
           }
 
-          rowNumber++;
+          rowsRead++;
+          const rowNumber = rowsRead + 1; // The header is row 1, as in a workbook
 
           if (!headerProcessed) {
             console.log('📋 Validating CSV headers...');
-            // Validate headers on first row
-            const requiredFields = ['Matric Number', 'Last Name', 'First Name', 'Gender', 'DoB', 'Year Of Entry', 'Department'];
-            const headers = Object.keys(result.data);
-            console.log(`📋 Found headers: ${headers.join(', ')}`);
-            const missingFields = requiredFields.filter(field => 
-              !headers.some(header => header.toLowerCase() === field.toLowerCase())
-            );
+            // Validate headers when the first data row arrives, after applying the column mapping
+            const missingFields = this.findMissingHeaders(Object.keys(result.data));
 
             if (missingFields.length > 0) {
-              console.log(`❌ Missing headers: ${missingFields.join(', ')}`);
-              reject(new Error(`Missing required CSV headers: ${missingFields.join(', ')}`));
+              fail(new Error(`Missing required CSV headers: ${missingFields.join(', ')}`), parser);
               return;
             }
 
@@ -160,169 +297,337 @@ export class CsvProcessor {
             headerProcessed = true;
             this.progress.message = 'Processing CSV rows...';
             this.emitProgress();
-            return; // Skip header row from processing
+          }
+
+          // Rows up to the checkpoint were already committed by a previous run
+          if (rowNumber <= resumeAfterRow) {
+            return;
           }
 
           // Add row to current batch
-          batch.push({ ...result.data, rowNumber } as any);
-          console.log(`� Added row ${rowNumber} to batch (batch size: ${batch.length}/${this.options.batchSize})`);
+          batch.push({ ...ColumnMappingService.applyMapping(result.data, this.columnMapping), rowNumber });
+
+          if (batch.length < this.options.batchSize!) {
+            return;
+          }
+
+          // Hold further reads until the batch is written
+          parser.pause();
+          stream.pause();
+          const currentBatch = batch;
+          const currentBatchNumber = batchNumber++;
+          batch = [];
+
+          this.trackStreamPosition(stream.bytesRead, totalBytes, rowsRead);
+          console.log(`📦 Processing batch ${currentBatchNumber} of ${currentBatch.length} records`);
+          this.processBatch(currentBatch).then(() => {
+            console.log(`✅ Batch ${currentBatchNumber} processed successfully`);
+            stream.resume();
+            parser.resume();
+          }, (error: Error) => fail(error, parser));
         },
         complete: async () => {
+          if (failed) {
+            return;
+          }
+
           try {
-            console.log(`📊 CSV parsing complete. Processing all batches...`);
-            
-            // Process all collected rows in batches sequentially
-            let currentBatch: CsvStudentRecord[] = [];
-            let batchNumber = 1;
-            
-            for (let i = 0; i < batch.length; i++) {
-              currentBatch.push(batch[i]);
-              
-              // Process batch when it reaches the configured size or we're at the end
-              if (currentBatch.length >= this.options.batchSize! || i === batch.length - 1) {
-                if (currentBatch.length > 0 && !this.isCancelled) {
-                  console.log(`📦 Processing batch ${batchNumber} of ${currentBatch.length} records`);
-                  await this.processBatch(currentBatch);
-                  console.log(`✅ Batch ${batchNumber} processed successfully`);
-                  currentBatch = []; // Clear batch
-                  batchNumber++;
-                }
-              }
+            console.log(`📊 CSV parsing complete. Processing final batch...`);
+            if (batch.length > 0) {
+              this.trackStreamPosition(totalBytes, totalBytes, rowsRead);
+              await this.processBatch(batch);
             }
 
-            // If we didn't count records upfront, update total records now
-            if (this.progress.totalRecords === 0) {
-              this.progress.totalRecords = rowNumber - 1; // Subtract 1 for header row
-              console.log(`📊 Final actual total records (dynamic count): ${this.progress.totalRecords}`);
-            } else {
-              console.log(`📊 Processing complete. Expected: ${this.progress.totalRecords}, Processed: ${rowNumber - 1}`);
-            }
+            this.progress.totalRecords = rowsRead;
+            console.log(`📊 Processing complete. Total records: ${rowsRead}`);
 
-            // Finalize processing
-            this.progress.isComplete = true;
-            this.progress.endTime = new Date();
-            this.progress.progress = 100;
-            this.progress.message = this.isCancelled 
-              ? 'Processing cancelled' 
-              : `Processing complete. ${this.progress.insertedRecords} records updated/inserted, ${this.progress.failedRecordsCount} failed.`;
-            
-            this.emitProgress();
+            this.finishProcessing();
             resolve();
           } catch (error) {
             reject(error);
           }
         },
         error: (error: Error) => {
-          reject(new Error(`CSV parsing failed: ${error.message}`));
+          fail(new Error(`CSV parsing failed: ${error.message}`));
         }
       });
     });
   }
 
+  /**
+   * Record how far a streamed CSV has been read, estimating the total row count from the rows parsed so far
+   */
+  private trackStreamPosition(bytesRead: number, totalBytes: number, rowsRead: number): void {
+    this.streamPosition = { bytesRead, totalBytes };
+    if (bytesRead > 0) {
+      this.progress.totalRecords = Math.max(rowsRead, Math.round(rowsRead * totalBytes / bytesRead));
+    }
+  }
+
+  /**
+   * Process an Excel/ODS workbook, feeding sheet rows into the same batch pipeline
+   */
+  private async processWorkbook(filePath: string, resumeAfterRow: number): Promise<void> {
+    this.progress.message = 'Reading workbook...';
+    this.emitProgress();
+
+    const workbook = SpreadsheetReader.readWorkbook(filePath);
+    const sheet = SpreadsheetReader.openSheet(workbook, this.options.sheetName);
+    console.log(`📗 Reading sheet "${sheet.sheetName}" (${sheet.totalRows} rows)`);
+
+    const missingFields = this.findMissingHeaders(sheet.headers);
+    if (missingFields.length > 0) {
+      throw new Error(`Missing required headers in sheet "${sheet.sheetName}": ${missingFields.join(', ')}`);
+    }
+
+    this.progress.totalRecords = sheet.totalRows;
+    this.progress.message = 'Processing workbook rows...';
+    this.emitProgress();
+
+    let batch: ParsedRow[] = [];
+    for (const { rowNumber, data } of sheet.rows) {
+      if (this.isCancelled) {
+        break;
+      }
+
+      // Rows up to the checkpoint were already committed by a previous run
+      if (rowNumber <= resumeAfterRow) {
+        continue;
+      }
+
+      batch.push(this.toStudentRecord(data, rowNumber));
+
+      if (batch.length >= this.options.batchSize!) {
+        await this.processBatch(batch);
+        batch = [];
+      }
+    }
+
+    if (batch.length > 0 && !this.isCancelled) {
+      await this.processBatch(batch);
+    }
+
+    this.finishProcessing();
+  }
+
+  /**
+   * Mark processing as finished and emit the final progress
+   */
+  private finishProcessing(): void {
+    this.progress.isComplete = true;
+    this.progress.endTime = new Date();
+    this.progress.progress = 100;
+    if (this.isCancelled) {
+      this.progress.message = 'Processing cancelled';
+    } else if (this.options.validateOnly) {
+      const validRecords = this.progress.processedRecords - this.progress.failedRecordsCount;
+      this.progress.message = `Validation complete. ${validRecords} records valid, ${this.progress.failedRecordsCount} failed.`;
+    } else {
+      const counts = `${this.progress.insertedRecords} inserted, ${this.progress.updatedRecords} updated, ` +
+        `${this.progress.unchangedRecords} unchanged, ${this.progress.duplicateSkippedRecords} duplicates skipped, ` +
+        `${this.progress.failedRecordsCount} failed.`;
+      this.progress.message = this.options.dryRun
+        ? `Dry run complete (all changes rolled back). ${counts}`
+        : `Processing complete. ${counts}`;
+    }
+    
+    this.emitProgress();
+  }
+
+  /**
+   * Required fields missing from the file headers once the column mapping is applied
+   */
+  private findMissingHeaders(headers: string[]): string[] {
+    console.log(`📋 Found headers: ${headers.join(', ')}`);
+    const missingFields = ColumnMappingService.findMissingFields(headers, this.columnMapping);
+    if (missingFields.length > 0) {
+      console.log(`❌ Missing headers: ${missingFields.join(', ')}`);
+    }
+    return missingFields;
+  }
+
+  /**
+   * Map a workbook row to CsvStudentRecord
+   * Only DoB keeps a typed Date; other date cells are written as YYYY-MM-DD text
+   */
+  private toStudentRecord(data: Record<string, SpreadsheetCellValue>, rowNumber: number): ParsedRow {
+    const record = ColumnMappingService.applyMapping(data, this.columnMapping) as unknown as Record<string, SpreadsheetCellValue>;
+
+    for (const [field, value] of Object.entries(record)) {
+      if (value instanceof Date && field !== 'DoB') {
+        record[field] = this.formatDate(value);
+      }
+    }
+
+    return { ...(record as unknown as CsvStudentRecord), rowNumber };
+  }
+
   /**
    * Process a batch of CSV records
+   * Rows are validated first, then every valid row is written in one transaction;
+   * if that transaction fails, the rows are retried one by one so the error is attributed to the right row
    */
-  private async processBatch(batch: CsvStudentRecord[]): Promise<void> {
+  private async processBatch(batch: ParsedRow[]): Promise<void> {
     console.log(`🔄 Starting processBatch with ${batch.length} records`);
     this.progress.message = `Processing batch of ${batch.length} records...`;
     this.emitProgress();
     
     // Clear processed matric numbers for this batch to prevent cross-batch issues
     // Note: We want to track duplicates within the same batch, but allow processing
-    // the same matric number if it appears in different batches (though it will fail at DB level)
+    // the same matric number if it appears in different batches (it is then treated as an existing student)
     const batchProcessedMatricNumbers = new Set<string>();
-    
-    // Small delay between batches for progress updates
-    await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second between batches
+    const prepared: PreparedRecord[] = [];
+    let lastRow: ParsedRow | null = null;
+
+    // Find duplicates within this batch up front, so only the first row with a matric number is processed.
+    // Keyed like the bulk write, so rows differing only in case cannot both reach the multi-row INSERT
+    const isDuplicate = batch.map(row => {
+      const key = matricKey(row['Matric Number'] || '');
+      if (batchProcessedMatricNumbers.has(key)) {
+        return true;
+      }
+      batchProcessedMatricNumbers.add(key);
+      return false;
+    });
 
-    for (const row of batch) {
+    // Validate and look up several rows at once, so bcrypt and database round trips overlap.
+    // Rows are taken in order and stop being taken on cancel, so the finished rows are always a prefix of the batch
+    const outcomes = await mapWithConcurrency(batch, this.options.concurrency!, async (row, index): Promise<RowOutcome | undefined> => {
       if (this.isCancelled) {
-        break;
+        return undefined;
+      }
+      if (isDuplicate[index]) {
+        return { record: null };
+      }
+      try {
+        return { record: await this.processRecord(row, true) }; // Skip duplicate check (done below)
+      } catch (error) {
+        return { error: error as Error };
       }
+    });
 
-      // Check for duplicate within this batch
-      const matricNumber = row['Matric Number']?.trim();
-      if (batchProcessedMatricNumbers.has(matricNumber)) {
-        console.log(`⚠️ Skipping duplicate matric number in same batch: ${matricNumber}`);
+    // Apply the outcomes in row order, so counts, duplicate detection and the failed records file stay deterministic
+    for (let index = 0; index < batch.length; index++) {
+      const row = batch[index];
+      const outcome = outcomes[index];
+      if (!outcome) {
+        break; // Cancelled before this row was started
+      }
+      lastRow = row;
+
+      if (isDuplicate[index]) {
+        console.log(`⚠️ Skipping duplicate matric number in same batch: ${row['Matric Number']?.trim()} (row ${row.rowNumber})`);
+        this.progress.duplicateSkippedRecords++;
         this.progress.processedRecords++;
         continue; // Skip to next record
       }
-      
-      batchProcessedMatricNumbers.add(matricNumber);
 
-      try {
-        const processedRecord = await this.processRecord(row, true); // Skip duplicate check (already done)
-        
-        // Only increment counters if we actually processed something
-        if (processedRecord) {
-          if (!this.options.dryRun) {
-            const wasUpdated = await this.upsertRecord(processedRecord);
-            if (wasUpdated) {
-              this.progress.insertedRecords++;
-            }
-          } else {
-            // In dry run mode, count as inserted for progress tracking
-            console.log(`🧪 DRY RUN: Would process record for ${row['Matric Number']} - ${row['Last Name']}, ${row['First Name']}`);
-            this.progress.insertedRecords++;
-          }
-          this.progress.processedRecords++;
-        } else {
-          // If processedRecord is null (skipped duplicate), still count it as processed
-          // but don't try to insert it
-          this.progress.processedRecords++;
-        }
-        
-      } catch (error) {
-        await this.handleProcessingError(row, error as Error);
+      if (outcome.error) {
+        await this.handleProcessingError(row, outcome.error);
         // Still increment processed count for error records
         this.progress.processedRecords++;
+      } else if (outcome.record) {
+        prepared.push({ row, ...outcome.record });
+      } else {
+        // If processedRecord is null (skipped duplicate), still count it as processed
+        this.progress.duplicateSkippedRecords++;
+        this.progress.processedRecords++;
       }
+    }
 
-      // Update progress
-      this.progress.currentRow = this.progress.processedRecords;
-      if (this.progress.totalRecords > 0) {
-        this.progress.progress = (this.progress.processedRecords / this.progress.totalRecords) * 100;
-      }
-      
-      // Small delay between records for progress visibility
-      await new Promise(resolve => setTimeout(resolve, 100)); // 100ms per record
+    if (this.options.validateOnly) {
+      // Rows passed validation and lookups; nothing is written
+      this.progress.processedRecords += prepared.length;
+    } else if (prepared.length > 0) {
+      // Applicant numbers are only needed for rows that are written, and are generated for the whole batch at once
+      const applicantNumbers = await DatabaseLookups.generateApplicantNos(prepared.length);
+      prepared.forEach((record, index) => {
+        record.student.applicantNo = applicantNumbers[index];
+        record.studentId.applicant_no = applicantNumbers[index];
+      });
+      await this.writeBatch(prepared);
+    }
+
+    // Update progress
+    this.progress.currentRow = this.progress.processedRecords;
+    if (this.streamPosition && this.streamPosition.totalBytes > 0) {
+      this.progress.progress = Math.min(100, (this.streamPosition.bytesRead / this.streamPosition.totalBytes) * 100);
+    } else if (this.progress.totalRecords > 0) {
+      this.progress.progress = (this.progress.processedRecords / this.progress.totalRecords) * 100;
+    }
+
+    // Every row of the batch is now committed or recorded as failed
+    if (lastRow) {
+      this.emitCheckpoint(lastRow);
     }
 
     this.emitProgress();
   }
 
+  /**
+   * Write validated rows in a single transaction, falling back to one transaction per row if it fails
+   */
+  private async writeBatch(records: PreparedRecord[]): Promise<void> {
+    let outcomes: UpsertOutcome[];
+    try {
+      outcomes = await executeTransaction(
+        connection => this.upsertRecords(connection, records),
+        { rollback: this.options.dryRun }
+      );
+      console.log(`💾 Batch of ${records.length} records written in one transaction`);
+    } catch (error) {
+      console.warn(`⚠️ Batch write failed, retrying ${records.length} records one by one:`, (error as Error).message);
+      outcomes = [];
+      for (const record of records) {
+        try {
+          outcomes.push(await this.upsertRecord(record));
+        } catch (rowError) {
+          await this.handleProcessingError(record.row, rowError as Error);
+          this.progress.processedRecords++;
+        }
+      }
+    }
+
+    for (const outcome of outcomes) {
+      if (outcome === 'inserted') {
+        this.progress.insertedRecords++;
+      } else if (outcome === 'updated') {
+        this.progress.updatedRecords++;
+      } else {
+        this.progress.unchangedRecords++;
+      }
+      this.progress.processedRecords++;
+    }
+  }
+
   /**
    * Process and validate a single CSV record
    */
-  private async processRecord(row: CsvStudentRecord, skipDuplicateCheck: boolean = false): Promise<{ student: DlcStudent; studentId: DlcStudentId } | null> {
+  private async processRecord(row: ParsedRow, skipDuplicateCheck: boolean = false): Promise<{ student: DlcStudent; studentId: DlcStudentId } | null> {
     const matricNumber = row['Matric Number']?.trim();
     
     // Skip duplicate check if already done at batch level
     if (!skipDuplicateCheck) {
       // Skip if already processed in this batch to prevent duplicates
-      if (this.processedMatricNumbers.has(matricNumber)) {
+      if (this.processedMatricNumbers.has(matricKey(matricNumber || ''))) {
         console.log(`⚠️ Skipping duplicate matric number in same batch: ${matricNumber}`);
         return null;
       }
       
       // Mark as processed
-      this.processedMatricNumbers.add(matricNumber);
+      this.processedMatricNumbers.add(matricKey(matricNumber || ''));
     }
     
-    // Validate required fields
-    const requiredFields = [
-      { field: 'Matric Number', value: row['Matric Number'] },
-      { field: 'Last Name', value: row['Last Name'] },
-      { field: 'First Name', value: row['First Name'] },
-      { field: 'Gender', value: row['Gender'] },
-      { field: 'DoB', value: row['DoB'] },
-      { field: 'Year Of Entry', value: row['Year Of Entry'] },
-      { field: 'Department', value: row['Department'] }
-    ];
+    // Every problem in the row is collected before it is rejected, so they can all be corrected at once
+    const problems: RowProcessingError[] = [];
 
-    for (const { field, value } of requiredFields) {
-      if (!value?.trim()) {
-        throw new Error(`Missing required field: ${field}`);
+    // Validate required fields
+    const missingFields = new Set<string>();
+    for (const field of REQUIRED_FIELDS) {
+      const value = row[field];
+      if (value instanceof Date ? isNaN(value.getTime()) : !value?.trim()) {
+        missingFields.add(field);
+        problems.push(new RowProcessingError('MISSING_FIELD', `Missing required field: ${field}`, field));
       }
     }
 
@@ -330,55 +635,67 @@ export class CsvProcessor {
     // This avoids double database queries and lets the transaction handle the logic
 
     // Normalize and validate gender
-    const gender = this.normalizeGender(row['Gender']);
-    if (!gender) {
-      throw new Error(`Invalid gender: ${row['Gender']}`);
+    const gender = this.normalizeGender(row['Gender'] || '');
+    if (!gender && !missingFields.has('Gender')) {
+      problems.push(new RowProcessingError('INVALID_GENDER', `Invalid gender: ${row['Gender']}`, 'Gender', row['Gender']));
     }
 
     // Parse and validate date of birth
     const dateOfBirth = this.parseDate(row['DoB']);
-    if (!dateOfBirth) {
-      throw new Error(`Invalid date of birth: ${row['DoB']}`);
+    if (!dateOfBirth && !missingFields.has('DoB')) {
+      problems.push(new RowProcessingError('INVALID_DATE', `Invalid date of birth: ${row['DoB']}`, 'DoB', String(row['DoB'])));
     }
 
     // Validate email if provided
     if (row['Email'] && !this.isValidEmail(row['Email'])) {
-      throw new Error(`Invalid email format: ${row['Email']}`);
+      problems.push(new RowProcessingError('INVALID_EMAIL', `Invalid email format: ${row['Email']}`, 'Email', row['Email']));
     }
 
     // Validate phone if provided
     if (row['Phone'] && !this.isValidPhone(row['Phone'])) {
-      throw new Error(`Invalid phone format: ${row['Phone']}`);
+      problems.push(new RowProcessingError('INVALID_PHONE', `Invalid phone format: ${row['Phone']}`, 'Phone', row['Phone']));
     }
 
-    // Perform database lookups
-    const maritalStatusResult = await DatabaseLookups.lookupMaritalStatus(row['Marital Status'] || '');
+    // Perform reference table lookups against the job's cache
+    const maritalStatusResult = await this.lookups.lookupMaritalStatus(row['Marital Status'] || '');
     if (maritalStatusResult.isDefault) {
-      console.warn(`Warning: Using default marital status for row ${(row as any).rowNumber || this.progress.currentRow}`);
+      console.warn(`Warning: Using default marital status for row ${row.rowNumber}`);
     }
 
-    const sessionId = await DatabaseLookups.lookupSession(row['Year Of Entry']);
-    if (!sessionId) {
-      throw new Error(`Session not found for year: ${row['Year Of Entry']}`);
+    const sessionId = await this.lookups.lookupSession(row['Year Of Entry']);
+    if (!sessionId && !missingFields.has('Year Of Entry')) {
+      problems.push(new RowProcessingError('UNKNOWN_SESSION', `Session not found for year: ${row['Year Of Entry']}`, 'Year Of Entry', row['Year Of Entry']));
     }
 
-    const courseOfStudyId = await DatabaseLookups.lookupCourseOfStudy(row['Department'], row['Programme']);
-    if (!courseOfStudyId) {
-      throw new Error(`Course of study not found for department: ${row['Department']}`);
+    const courseName = row['Department']?.trim() || row['Programme']?.trim() || '';
+    const courseOfStudyId = await this.lookups.lookupCourseOfStudy(row['Department'], row['Programme'])
+      ?? this.resolveUnknownLookup('course_of_study', courseName);
+    if (!courseOfStudyId && !missingFields.has('Department')) {
+      problems.push(new RowProcessingError('UNKNOWN_COURSE', `Course of study not found for department: ${row['Department']}`, 'Department', row['Department']));
     }
 
-    const stateId = await DatabaseLookups.lookupState(row['State Of Origin'] || '');
-    const lgaResult = await DatabaseLookups.lookupLga(row['LGA'] || '', stateId);
+    // State and LGA are optional, but unrecognised names are still recorded for suggestions
+    const stateId = await this.lookups.lookupState(row['State Of Origin'] || '')
+      ?? this.resolveUnknownLookup('state', row['State Of Origin'] || '');
+    const lgaResult = await this.lookups.lookupLga(row['LGA'] || '', stateId);
     if (lgaResult.usedFallback) {
-      console.warn(`Warning: LGA lookup used fallback for row ${(row as any).rowNumber || this.progress.currentRow}`);
+      console.warn(`Warning: LGA lookup used fallback for row ${row.rowNumber}`);
+    }
+    const lgaId = lgaResult.lgaId ?? this.resolveUnknownLookup('lga', row['LGA'] || '', stateId);
+
+    // A value missing or not recognised above was recorded as a problem
+    if (problems.length > 0 || !gender || !dateOfBirth || !sessionId || !courseOfStudyId) {
+      throw problems.length === 1 ? problems[0] : new RowValidationError(problems);
     }
 
-    // Generate applicant number
-    const applicantNo = await DatabaseLookups.generateApplicantNo();
+    // Assigned by processBatch once the row is known to be written
+    const applicantNo = '';
 
-    // Hash password (using last name as raw password)
+    // Hash password (using last name as raw password); validation runs never store it
     const saltRounds = parseInt(process.env.SALT_ROUNDS || '10');
-    const hashedPassword = await bcrypt.hash(row['Last Name'].trim(), saltRounds);
+    const hashedPassword = this.options.validateOnly
+      ? ''
+      : await bcrypt.hash(row['Last Name'].trim(), saltRounds);
 
     // Map study mode
     const studyMode = this.mapStudyMode(row['Programme Duration'] || '');
@@ -401,7 +718,7 @@ export class CsvProcessor {
       studyMode,
       password: hashedPassword,
       profession: row['Profession']?.trim() || undefined,
-      lga_origin: lgaResult.lgaId || undefined
+      lga_origin: lgaId || undefined
     };
 
     const studentId: DlcStudentId = {
@@ -416,174 +733,235 @@ export class CsvProcessor {
   }
 
   /**
-   * Insert record into database using transaction
-   * @returns boolean indicating whether a database operation occurred
+   * Apply an accepted suggestion for a name the lookup did not recognise,
+   * otherwise record the name so suggestions can be offered for it
    */
-  private async upsertRecord(record: { student: DlcStudent; studentId: DlcStudentId }): Promise<boolean> {
-    return await executeTransaction(async (connection) => {
-      console.log(`🔍 Checking if student exists: ${record.student.applicantNo}`);
-      
-      // Check if student already exists by matric number - get all relevant fields
-      const checkQuery = `
-        SELECT s.serialID, s.emailAddress, s.studyMode, s.password, si.matric_no, si.stud_email 
-        FROM dlc_student s 
-        LEFT JOIN dlc_student_id si ON s.serialID = si.applicant_serial 
-        WHERE s.applicantNo = ? OR si.matric_no = ?
-      `;
-      
-      const [existingRecords] = await connection.execute(checkQuery, [
-        record.student.applicantNo, 
-        record.studentId.matric_no
-      ]);
-      
-      const existing = (existingRecords as any[])[0];
-      
+  private resolveUnknownLookup(field: LookupField, value: string, stateId: number | null = null): number | null {
+    const name = value.trim();
+    if (!name) {
+      return null;
+    }
+
+    const key = lookupCorrectionKey(field, name);
+    const corrected = this.lookupCorrections.get(key);
+    if (corrected) {
+      return corrected;
+    }
+
+    const unknown = this.unknownLookups.get(key);
+    if (unknown) {
+      unknown.rows++;
+    } else {
+      this.unknownLookups.set(key, { field, value: name, stateId, rows: 1 });
+    }
+    return null;
+  }
+
+  /**
+   * Re-run the row validation and lookups for a single corrected row, without writing anything
+   * @returns the error the row would fail with, or null when it would be accepted
+   */
+  public async validateRow(row: CsvStudentRecord): Promise<ProcessingError | null> {
+    try {
+      // A corrected row has no position in an upload
+      await this.processRecord({ ...row, rowNumber: 0 }, true);
+      return null;
+    } catch (error) {
+      const validationError = error instanceof Error ? error : new Error('Unknown error');
+      return {
+        rowNumber: 0,
+        originalRow: row,
+        reason: validationError.message,
+        ...classifyProcessingError(validationError)
+      };
+    }
+  }
+
+  /**
+   * Insert or update a single record in its own transaction
+   * In dry run mode the statements still run, so constraint and FK errors surface, but the transaction is rolled back
+   * @returns which database operation occurred
+   */
+  private async upsertRecord(record: PreparedRecord): Promise<UpsertOutcome> {
+    return await executeTransaction<UpsertOutcome>(
+      async (connection) => (await this.upsertRecords(connection, [record]))[0],
+      { rollback: this.options.dryRun }
+    );
+  }
+
+  /**
+   * Insert or update records inside an open transaction
+   * Existing students are found with one query and new students are added with multi-row INSERTs
+   * @returns the operation that occurred for each record, in order
+   */
+  private async upsertRecords(connection: mysql.PoolConnection, records: PreparedRecord[]): Promise<UpsertOutcome[]> {
+    const existingStudents = await this.findExistingStudents(connection, records.map(record => record.studentId.matric_no));
+
+    const outcomes: UpsertOutcome[] = [];
+    const newRecords: PreparedRecord[] = [];
+    for (const record of records) {
+      const existing = existingStudents.get(matricKey(record.studentId.matric_no));
       if (existing) {
-        console.log(`🔄 Student exists, checking what needs updating: ${record.student.applicantNo}`);
-        console.log(`📋 Found existing record:`, {
-          serialID: existing.serialID,
-          matric_no: existing.matric_no,
-          emailAddress: existing.emailAddress || '(empty)',
-          stud_email: existing.stud_email || '(empty)',
-          studyMode: existing.studyMode || '(empty)',
-          password: existing.password ? '(has password)' : '(empty)'
-        });
-        
-        // Check what fields need updating
-        const needsPasswordUpdate = !existing.password || existing.password.trim() === '';
-        const needsEmailUpdate = !existing.emailAddress || existing.emailAddress.trim() === '';
-        const needsStudEmailUpdate = !existing.stud_email || existing.stud_email.trim() === '';
-        const needsStudyModeUpdate = !existing.studyMode || existing.studyMode.trim() === '';
-        
-        console.log(`🔍 Update check:`, {
-          needsPasswordUpdate,
-          needsEmailUpdate, 
-          needsStudEmailUpdate,
-          needsStudyModeUpdate
-        });
-        
-        // If no updates are needed, skip this record
-        if (!needsPasswordUpdate && !needsEmailUpdate && !needsStudEmailUpdate && !needsStudyModeUpdate) {
-          console.log(`⏭️ All fields already filled, skipping update for: ${record.student.applicantNo}`);
-          return false; // No database operation occurred
-        }
-        
-        console.log(`🔄 Updating fields for existing student: ${record.student.applicantNo}`);
-        
-        // Update dlc_student - only update empty fields
-        const updateStudentQuery = `
-          UPDATE dlc_student SET 
-            emailAddress = CASE WHEN (emailAddress IS NULL OR emailAddress = '' OR emailAddress = ' ') THEN ? ELSE emailAddress END,
-            studyMode = CASE WHEN (studyMode IS NULL OR studyMode = '' OR studyMode = ' ') THEN ? ELSE studyMode END,
-            password = CASE WHEN (password IS NULL OR password = '' OR password = ' ') THEN ? ELSE password END
-          WHERE serialID = ?
-        `;
-        
-        // Prepare password if needed
-        let updatePassword = existing.password;
-        if (needsPasswordUpdate && record.student.lastName) {
-          updatePassword = await bcrypt.hash(record.student.lastName.toLowerCase(), 10);
-          console.log(`🔐 Setting password from lastName for existing student`);
-        }
-        
-        await connection.execute(updateStudentQuery, [
-          record.student.emailAddress || null,
-          record.student.studyMode || null,
-          updatePassword,
-          existing.serialID
-        ]);
-        
-        // Update dlc_student_id - only update empty stud_email field
-        if (needsStudEmailUpdate && record.studentId.stud_email) {
-          console.log(`📧 Updating dlc_student_id stud_email for serialID: ${existing.serialID}`);
-          console.log(`📧 New email: ${record.studentId.stud_email}`);
-          
-          const updateStudentIdQuery = `
-            UPDATE dlc_student_id SET 
-              stud_email = ?
-            WHERE applicant_serial = ? AND (stud_email IS NULL OR stud_email = '' OR stud_email = ' ')
-          `;
-          
-          const [updateResult] = await connection.execute(updateStudentIdQuery, [
-            record.studentId.stud_email,
-            existing.serialID
-          ]);
-          
-          console.log(`📊 stud_email update result - Affected rows: ${(updateResult as any).affectedRows}`);
-        }
-        
-        console.log(`✅ Updated existing student: ${record.student.applicantNo}`);
-        return true; // Database update occurred
-        
+        outcomes.push(await this.updateExistingStudent(connection, record, existing));
       } else {
-        console.log(`➕ Inserting new student: ${record.student.applicantNo}`);
-        
-        // Insert new student
-        const studentQuery = `
-          INSERT INTO dlc_student (
-            applicantNo, lastName, firstName, middleName, gender, date_of_birth,
-            maritalStatus, religion, phoneNo, emailAddress, application_session,
-            course_of_study, country, studyMode, password, profession, lga_origin
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `;
-
-        const studentValues = [
-          record.student.applicantNo,
-          record.student.lastName,
-          record.student.firstName,
-          record.student.middleName,
-          record.student.gender,
-          record.student.date_of_birth,
-          record.student.maritalStatus,
-          record.student.religion,
-          record.student.phoneNo,
-          record.student.emailAddress,
-          record.student.application_session,
-          record.student.course_of_study,
-          record.student.country,
-          record.student.studyMode,
-          record.student.password,
-          record.student.profession,
-          record.student.lga_origin
-        ];
-
-        const [studentResult] = await connection.execute(studentQuery, studentValues);
-        const serialID = (studentResult as any).insertId;
-
-        // Insert into dlc_student_id
-        const studentIdQuery = `
-          INSERT INTO dlc_student_id (applicant_no, matric_no, applicant_serial, stud_email)
-          VALUES (?, ?, ?, ?)
-        `;
-
-        await connection.execute(studentIdQuery, [
-          record.studentId.applicant_no,
-          record.studentId.matric_no,
-          serialID,
-          record.studentId.stud_email
-        ]);
-        
-        console.log(`✅ Inserted new student: ${record.student.applicantNo}`);
-        return true; // Database insert occurred
+        newRecords.push(record);
+        outcomes.push('inserted');
+      }
+    }
+
+    await this.insertNewStudents(connection, newRecords);
+    return outcomes;
+  }
+
+  /**
+   * Existing students by matric number - the rows are locked so the
+   * update policy is applied against the values it actually replaces
+   */
+  private async findExistingStudents(connection: mysql.PoolConnection, matricNumbers: string[]): Promise<Map<string, ExistingStudent>> {
+    const [rows] = await connection.query(
+      `SELECT s.serialID, ${STUDENT_UPDATE_COLUMNS.map(column => `s.${column}`).join(', ')}, si.matric_no, si.stud_email
+       FROM dlc_student s
+       JOIN dlc_student_id si ON s.serialID = si.applicant_serial
+       WHERE si.matric_no IN (?)
+       FOR UPDATE`,
+      [matricNumbers]
+    );
+
+    const existing = new Map<string, ExistingStudent>();
+    for (const row of rows as ExistingStudent[]) {
+      if (!existing.has(matricKey(row.matric_no))) {
+        existing.set(matricKey(row.matric_no), row);
       }
+    }
+    return existing;
+  }
+
+  /**
+   * Apply the update policy to an existing student and journal the changed fields
+   */
+  private async updateExistingStudent(connection: mysql.PoolConnection, record: PreparedRecord, existing: ExistingStudent): Promise<UpsertOutcome> {
+    const policy = this.updatePolicy;
+
+    // Existing students get their password from the lower-cased last name
+    let student = record.student;
+    if (policy.fields.includes('password') && !normalizeValue(existing.password) && student.lastName) {
+      student = { ...student, password: await bcrypt.hash(student.lastName.toLowerCase(), 10) };
+      console.log(`🔐 Setting password from lastName for existing student`);
+    }
+
+    const changes = UpdatePolicyService.planChanges(policy, existing, student, record.studentId);
+
+    if (changes.length === 0) {
+      console.log(`⏭️ Nothing to update under policy "${policy.mode}", skipping: ${record.studentId.matric_no}`);
+      return 'unchanged'; // No database operation occurred
+    }
+
+    console.log(`🔄 Updating ${changes.map(change => change.field).join(', ')} for existing student: ${record.studentId.matric_no}`);
+
+    const studentChanges = changes.filter(change => change.table === 'dlc_student');
+    if (studentChanges.length > 0) {
+      await connection.execute(
+        `UPDATE dlc_student SET ${studentChanges.map(change => `${change.field} = ?`).join(', ')} WHERE serialID = ?`,
+        [...studentChanges.map(change => change.after), existing.serialID]
+      );
+    }
+
+    const studEmailChange = changes.find(change => change.field === 'stud_email');
+    if (studEmailChange) {
+      await connection.execute(
+        'UPDATE dlc_student_id SET stud_email = ? WHERE applicant_serial = ?',
+        [studEmailChange.after, existing.serialID]
+      );
+    }
+
+    await ChangeLogService.record(connection, {
+      jobId: this.jobId,
+      userId: this.options.userId ?? null,
+      matricNo: record.studentId.matric_no,
+      serialId: existing.serialID,
+      action: 'update',
+      changes
     });
+
+    return 'updated';
+  }
+
+  /**
+   * Insert new students into dlc_student and dlc_student_id with multi-row INSERTs and journal every populated column
+   */
+  private async insertNewStudents(connection: mysql.PoolConnection, records: PreparedRecord[]): Promise<void> {
+    for (let start = 0; start < records.length; start += INSERT_CHUNK_SIZE) {
+      const chunk = records.slice(start, start + INSERT_CHUNK_SIZE);
+
+      await connection.query(
+        `INSERT INTO dlc_student (${STUDENT_INSERT_COLUMNS.join(', ')}) VALUES ?`,
+        [chunk.map(record => STUDENT_INSERT_COLUMNS.map(column => record.student[column] ?? null))]
+      );
+
+      // Read the generated serials back by applicant number, since a multi-row
+      // INSERT does not guarantee consecutive auto-increment values
+      const [inserted] = await connection.query(
+        'SELECT serialID, applicantNo FROM dlc_student WHERE applicantNo IN (?)',
+        [chunk.map(record => record.student.applicantNo)]
+      );
+      const serials = new Map(
+        (inserted as Array<{ serialID: number; applicantNo: string }>).map(row => [row.applicantNo, row.serialID])
+      );
+
+      await connection.query(
+        'INSERT INTO dlc_student_id (applicant_no, matric_no, applicant_serial, stud_email) VALUES ?',
+        [chunk.map(record => [
+          record.studentId.applicant_no,
+          record.studentId.matric_no,
+          serials.get(record.student.applicantNo),
+          record.studentId.stud_email ?? null
+        ])]
+      );
+
+      await ChangeLogService.recordMany(connection, chunk.map(record => ({
+        jobId: this.jobId,
+        userId: this.options.userId ?? null,
+        matricNo: record.studentId.matric_no,
+        serialId: serials.get(record.student.applicantNo)!,
+        action: 'insert' as const,
+        changes: this.insertedFieldChanges(record)
+      })));
+    }
+  }
+
+  /**
+   * Journal entries for every populated column of a new student
+   */
+  private insertedFieldChanges(record: PreparedRecord): FieldChange[] {
+    const changes: FieldChange[] = STUDENT_INSERT_COLUMNS
+      .map(field => ({ table: 'dlc_student' as const, field, before: null, after: record.student[field] ?? null }))
+      .filter(change => change.after !== null && change.after !== '');
+    changes.push(
+      { table: 'dlc_student_id', field: 'applicant_no', before: null, after: record.studentId.applicant_no },
+      { table: 'dlc_student_id', field: 'matric_no', before: null, after: record.studentId.matric_no }
+    );
+    if (record.studentId.stud_email) {
+      changes.push({ table: 'dlc_student_id', field: 'stud_email', before: null, after: record.studentId.stud_email });
+    }
+    return changes;
   }
 
   /**
    * Handle processing errors
    */
-  private async handleProcessingError(row: CsvStudentRecord, error: Error): Promise<void> {
+  private async handleProcessingError(row: ParsedRow, error: Error): Promise<void> {
     const processingError: ProcessingError = {
-      rowNumber: (row as any).rowNumber || this.progress.currentRow,
+      rowNumber: row.rowNumber,
       originalRow: row,
-      reason: error.message
+      reason: error.message,
+      ...classifyProcessingError(error)
     };
 
     this.errors.push(processingError);
     this.progress.failedRecordsCount++;
 
     // Write to failed CSV
-    await this.writeFailedRecord(row, error.message);
+    await this.writeFailedRecord(processingError);
 
     if (this.options.onError) {
       this.options.onError(processingError);
@@ -593,11 +971,13 @@ export class CsvProcessor {
   /**
    * Write failed record to CSV
    */
-  private async writeFailedRecord(row: CsvStudentRecord, failureReason: string): Promise<void> {
+  private async writeFailedRecord(error: ProcessingError): Promise<void> {
     const failedRecord = {
-      ...row,
-      failure_reason: failureReason,
-      row_number: (row as any).rowNumber || this.progress.currentRow
+      ...error.originalRow,
+      failure_reason: error.reason,
+      error_code: error.code,
+      error_field: error.field || '',
+      row_number: error.rowNumber
     };
 
     const csvLine = Papa.unparse([failedRecord], { header: !fs.existsSync(this.failedCsvPath) });
@@ -613,6 +993,29 @@ export class CsvProcessor {
     }
   }
 
+  /**
+   * Emit a checkpoint once a row has been committed or recorded as failed
+   */
+  private emitCheckpoint(row: ParsedRow): void {
+    if (this.options.onCheckpoint) {
+      this.options.onCheckpoint({
+        lastCommittedRow: row.rowNumber,
+        progress: { ...this.progress }
+      });
+    }
+  }
+
+  /**
+   * Wait between steps so the progress stream can keep up
+   * Validation runs are returned in a single response, so they never wait
+   */
+  private async pause(ms: number): Promise<void> {
+    if (this.options.validateOnly) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, ms));
+  }
+
   /**
    * Utility methods
    */
@@ -623,9 +1026,14 @@ export class CsvProcessor {
     return null;
   }
 
-  private parseDate(dateStr: string): string | null {
+  private parseDate(dateStr: SpreadsheetCellValue): string | null {
     if (!dateStr) return null;
 
+    // Typed date cells from Excel/ODS are used as they are
+    if (dateStr instanceof Date) {
+      return isNaN(dateStr.getTime()) ? null : this.formatDate(dateStr);
+    }
+
     // Try different date formats
     const formats = [
       /^(\d{4})-(\d{2})-(\d{2})$/, // YYYY-MM-DD
@@ -661,6 +1069,13 @@ export class CsvProcessor {
     return null;
   }
 
+  private formatDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+
   private isValidEmail(email: string): boolean {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
@@ -689,6 +1104,20 @@ export class CsvProcessor {
     return this.failedCsvPath;
   }
 
+  /**
+   * Distinct course, state and LGA names the lookups did not recognise
+   */
+  public getUnknownLookups(): UnknownLookup[] {
+    return Array.from(this.unknownLookups.values());
+  }
+
+  /**
+   * Reference tables this processor looks names up in
+   */
+  public getLookupCache(): LookupCache {
+    return this.lookups;
+  }
+
   /**
    * Get processing errors
    */
@@ -70,15 +70,24 @@ export async function executeQuery<T = unknown>(
   }
 }
 
+export interface TransactionOptions {
+  rollback?: boolean; // Roll back even when the callback succeeds (used for dry runs)
+}
+
 export async function executeTransaction<T>(
-  callback: (connection: mysql.PoolConnection) => Promise<T>
+  callback: (connection: mysql.PoolConnection) => Promise<T>,
+  options: TransactionOptions = {}
 ): Promise<T> {
   const connection = await db.getConnection();
   
   try {
     await connection.beginTransaction();
     const result = await callback(connection);
-    await connection.commit();
+    if (options.rollback) {
+      await connection.rollback();
+    } else {
+      await connection.commit();
+    }
     return result;
   } catch (error) {
     await connection.rollback();
@@ -0,0 +1,126 @@
+export interface FuzzyCandidate {
+  id: number;
+  name: string;
+}
+
+export interface FuzzyMatch extends FuzzyCandidate {
+  score: number; // 0-1, 1 being an exact match after normalisation
+}
+
+export interface FuzzyMatchOptions {
+  threshold?: number;
+  limit?: number;
+}
+
+// Words that describe the kind of place or unit rather than name it, e.g. "Ikeja LGA", "Lagos State"
+const NOISE_TOKENS = new Set(['lga', 'lg', 'local', 'government', 'area', 'state', 'dept', 'department', 'of', 'and']);
+
+// Abbreviated tokens must be at least this long to match a longer word by prefix ("comp" -> "computer")
+const MIN_PREFIX_LENGTH = 3;
+
+const DEFAULT_THRESHOLD = 0.7;
+const DEFAULT_LIMIT = 3;
+
+/**
+ * Minimum score for a candidate to be suggested, from FUZZY_MATCH_THRESHOLD (0-1)
+ */
+export function getFuzzyThreshold(): number {
+  const threshold = parseFloat(process.env.FUZZY_MATCH_THRESHOLD || '');
+  return threshold > 0 && threshold <= 1 ? threshold : DEFAULT_THRESHOLD;
+}
+
+/**
+ * Lower-case, strip punctuation and drop noise words, so "Akwa-Ibom State" and "akwa ibom" compare equal
+ */
+export function normalizeName(value: string): string[] {
+  const tokens = value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+  const meaningful = tokens.filter(token => !NOISE_TOKENS.has(token));
+  // A name made only of noise words is kept as it is
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+/**
+ * Similarity of two names: the mean of an edit-distance ratio and a token overlap score
+ */
+export function similarity(a: string, b: string): number {
+  const tokensA = normalizeName(a);
+  const tokensB = normalizeName(b);
+  if (tokensA.length === 0 || tokensB.length === 0) {
+    return 0;
+  }
+
+  const joinedA = tokensA.join('');
+  const joinedB = tokensB.join('');
+  if (joinedA === joinedB) {
+    return 1;
+  }
+
+  const editScore = 1 - levenshtein(joinedA, joinedB) / Math.max(joinedA.length, joinedB.length);
+  return (editScore + tokenOverlap(tokensA, tokensB)) / 2;
+}
+
+/**
+ * Candidates scoring at or above the threshold, best first
+ */
+export function findClosestMatches(value: string, candidates: FuzzyCandidate[], options: FuzzyMatchOptions = {}): FuzzyMatch[] {
+  const threshold = options.threshold ?? getFuzzyThreshold();
+  const limit = options.limit ?? DEFAULT_LIMIT;
+
+  return candidates
+    .map(candidate => ({ ...candidate, score: Math.round(similarity(value, candidate.name) * 100) / 100 }))
+    .filter(match => match.score >= threshold)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+/**
+ * Dice coefficient over tokens, where abbreviations and one-letter typos still count as shared tokens
+ */
+function tokenOverlap(tokensA: string[], tokensB: string[]): number {
+  const unmatched = [...tokensB];
+  let shared = 0;
+
+  for (const token of tokensA) {
+    const index = unmatched.findIndex(other => tokensMatch(token, other));
+    if (index !== -1) {
+      shared++;
+      unmatched.splice(index, 1);
+    }
+  }
+
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(shorter)) {
+    return true;
+  }
+
+  return shorter.length >= 5 && levenshtein(a, b) <= 1;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -1,76 +1,381 @@
 import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
-import { JobProgress } from './types';
-import { CsvProcessor } from './csv-processor';
+import path from 'path';
+import Papa from 'papaparse';
+import { CsvStudentRecord, JobCheckpoint, JobProgress, JobStatus, ProcessingError } from './types';
+import { CsvProcessor, ProcessingOptions } from './csv-processor';
+import { JobListFilters, JobListItem, JobStore } from './job-store';
+import { JobRollbackService, RollbackResult } from './job-rollback';
+import { CANONICAL_FIELDS } from './column-mapping';
+import { saveUploadContent } from './uploads';
+import { User } from './auth';
+import { hasPermission } from './permissions';
+import { LookupSuggestion, LookupSuggestionService } from './lookup-suggestions';
 
 export interface Job {
   id: string;
-  processor: CsvProcessor;
+  userId: number | null;
+  parentJobId: string | null; // Job whose corrected failed rows this job re-submits
+  fileName: string | null;
+  filePath: string | null;
+  options: Record<string, unknown>;
+  status: JobStatus;
+  processor?: CsvProcessor; // Only present for jobs started or resumed in this process
+  processing?: boolean; // Set from startJob until the processor settles
   progress: JobProgress;
+  failedCsvPath: string | null;
   createdAt: Date;
   completedAt?: Date;
 }
 
+export interface JobContext {
+  userId?: number;
+  parentJobId?: string;
+  fileName?: string;
+  filePath?: string;
+}
+
+export interface ResumeResult {
+  success: boolean;
+  job?: Job;
+  message?: string;
+}
+
+export interface ResubmitResult {
+  success: boolean;
+  job?: Job;
+  message?: string;
+}
+
+export interface RollbackJobResult {
+  success: boolean;
+  result?: RollbackResult;
+  message?: string;
+}
+
+// Days a finished job's upload and failed-records files are kept before the cleanup scheduler deletes them
+const FILE_RETENTION_DAYS = parseInt(process.env.FILE_RETENTION_DAYS || '30') || 30;
+
+// Statuses a job can be resumed from
+const RESUMABLE_STATUSES: JobStatus[] = ['interrupted', 'failed', 'cancelled'];
+
+// Parent job options that do not apply to re-submitted rows, which are always a canonical CSV
+// (validateOnly and dryRun are inherited, so corrections of a validation run are only validated)
+const PARENT_ONLY_OPTIONS = ['mappingProfileId', 'sheetName'];
+
 export class JobManager {
   private static jobs = new Map<string, Job>();
   private static readonly JOB_CLEANUP_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
+  private static rowValidators = new Map<string, { processor: CsvProcessor; lastUsedAt: number }>();
+  private static readonly ROW_VALIDATOR_IDLE_TIME = 60 * 60 * 1000; // 1 hour
 
   /**
-   * Create a new processing job
+   * Create a new processing job and persist it to the job store
    */
-  static createJob(options: Record<string, unknown> = {}): Job {
+  static async createJob(options: Record<string, unknown> = {}, context: JobContext = {}): Promise<Job> {
     const jobId = uuidv4();
     console.log(`🆔 Creating job with ID: ${jobId}`);
-    
-    const processor = new CsvProcessor(jobId, {
+
+    const processor = this.createProcessor(jobId, { ...options, userId: context.userId ?? null });
+
+    const job: Job = {
+      id: jobId,
+      userId: context.userId ?? null,
+      parentJobId: context.parentJobId ?? null,
+      fileName: context.fileName ?? null,
+      filePath: context.filePath ?? null,
+      options,
+      status: 'pending',
+      processor,
+      progress: processor.getProgress(),
+      failedCsvPath: processor.getFailedCsvPath(),
+      createdAt: new Date()
+    };
+
+    await JobStore.createJob({
+      id: jobId,
+      userId: job.userId,
+      parentJobId: job.parentJobId,
+      fileName: job.fileName,
+      filePath: job.filePath,
+      options,
+      progress: job.progress,
+      failedCsvPath: processor.getFailedCsvPath()
+    });
+
+    this.jobs.set(jobId, job);
+    console.log(`✅ Job ${jobId} created and stored. Total jobs: ${this.jobs.size}`);
+    return job;
+  }
+
+  /**
+   * Resume an interrupted, failed or cancelled job from its last committed row,
+   * reusing the stored upload file, options and failed-records CSV
+   */
+  static async resumeJob(jobId: string): Promise<ResumeResult> {
+    const running = this.jobs.get(jobId);
+    if (running?.processor && !running.progress.isComplete) {
+      return { success: false, message: 'Job is already running' };
+    }
+
+    const stored = await JobStore.getJob(jobId);
+    if (!stored) {
+      return { success: false, message: 'Job not found' };
+    }
+
+    // A job still marked pending/running in the store but not in memory was interrupted
+    const status = stored.status === 'pending' || stored.status === 'running' ? 'interrupted' : stored.status;
+    if (!RESUMABLE_STATUSES.includes(status)) {
+      return { success: false, message: `Job cannot be resumed from status '${status}'` };
+    }
+
+    if (!stored.filePath || !fs.existsSync(stored.filePath)) {
+      return { success: false, message: 'Uploaded file for this job is no longer available' };
+    }
+
+    const checkpoint: JobCheckpoint = stored.checkpoint || {
+      lastCommittedRow: 0,
+      progress: stored.progress
+    };
+
+    console.log(`⏩ Resuming job ${jobId} after row ${checkpoint.lastCommittedRow}`);
+
+    const processor = this.createProcessor(jobId, {
+      ...stored.options,
+      userId: stored.userId,
+      failedCsvPath: stored.failedCsvPath || undefined,
+      resumeFrom: checkpoint
+    });
+
+    const job: Job = {
+      id: jobId,
+      userId: stored.userId,
+      parentJobId: stored.parentJobId,
+      fileName: stored.fileName,
+      filePath: stored.filePath,
+      options: stored.options,
+      status: 'running',
+      processor,
+      progress: processor.getProgress(),
+      failedCsvPath: processor.getFailedCsvPath(),
+      createdAt: stored.startedAt
+    };
+
+    this.jobs.set(jobId, job);
+    await JobStore.saveProgress(jobId, job.progress, job.status);
+
+    this.startJob(job);
+    return { success: true, job };
+  }
+
+  /**
+   * Re-submit corrected failed rows of a job as a new child job linked to it
+   * The rows are written to a canonical CSV, and the child reuses the parent's validate-only,
+   * dry-run, batch size and update policy settings
+   */
+  static async resubmitFailedRows(parentJobId: string, rows: CsvStudentRecord[], userId?: number): Promise<ResubmitResult> {
+    const parent = await this.getJob(parentJobId);
+    if (!parent) {
+      return { success: false, message: 'Job not found' };
+    }
+
+    if (parent.status === 'pending' || parent.status === 'running') {
+      return { success: false, message: 'Job is still running' };
+    }
+
+    if (rows.length === 0) {
+      return { success: false, message: 'No rows to re-submit' };
+    }
+
+    const options = this.resubmitOptions(parent);
+
+    const baseName = path.parse(parent.fileName || 'upload').name;
+    const fileName = `corrections-of-${baseName}.csv`;
+    const filePath = await saveUploadContent(fileName, Papa.unparse(rows, { columns: CANONICAL_FIELDS }));
+
+    const job = await this.createJob(options, {
+      userId,
+      parentJobId,
+      fileName,
+      filePath
+    });
+
+    console.log(`🔁 Re-submitting ${rows.length} corrected rows of job ${parentJobId} as job ${job.id}`);
+    this.startJob(job, 2000); // Same delay as uploads, so the UI can connect to the progress stream
+    return { success: true, job };
+  }
+
+  /**
+   * Validate one corrected failed row of a job without writing anything
+   * The row is checked with the options a re-submit would use. The validator is kept per job so its
+   * reference tables load once, and shares the job's own lookup cache while the job is held in memory
+   */
+  static async validateRow(job: Job, row: CsvStudentRecord): Promise<ProcessingError | null> {
+    let validator = this.rowValidators.get(job.id);
+    if (!validator) {
+      validator = {
+        processor: new CsvProcessor(`validate-${job.id}`, {
+          ...this.resubmitOptions(job),
+          validateOnly: true,
+          lookupCache: job.processor?.getLookupCache()
+        }),
+        lastUsedAt: 0
+      };
+      this.rowValidators.set(job.id, validator);
+    }
+
+    validator.lastUsedAt = Date.now();
+    return validator.processor.validateRow(row);
+  }
+
+  /**
+   * A job's options as they apply to its re-submitted rows
+   */
+  private static resubmitOptions(parent: Job): Record<string, unknown> {
+    const options = { ...parent.options };
+    for (const option of PARENT_ONLY_OPTIONS) {
+      delete options[option];
+    }
+    return options;
+  }
+
+  /**
+   * Nearest matches for the course, state and LGA names a job did not recognise
+   * Unrecognised names are only tracked by a live processor, so jobs no longer held in memory have none
+   */
+  static async getLookupSuggestions(job: Job): Promise<LookupSuggestion[]> {
+    return job.processor ? LookupSuggestionService.suggest(job.processor.getUnknownLookups()) : [];
+  }
+
+  /**
+   * Start processing a job's upload file in the background
+   */
+  static startJob(job: Job, delayMs: number = 0): void {
+    const { processor, filePath } = job;
+    if (!processor || !filePath) {
+      throw new Error(`Job ${job.id} has no processor or upload file`);
+    }
+
+    job.processing = true;
+    setTimeout(() => {
+      console.log(`⏰ Starting processing for job: ${job.id}`);
+      processor.processFile(filePath).catch(error => {
+        console.error(`Job ${job.id} failed:`, error);
+        // Update job progress to reflect error
+        this.failJob(job.id, error);
+      }).finally(() => {
+        job.processing = false;
+      });
+    }, delayMs);
+  }
+
+  /**
+   * Build a processor whose progress and checkpoints are mirrored into the job store
+   */
+  private static createProcessor(jobId: string, options: ProcessingOptions): CsvProcessor {
+    return new CsvProcessor(jobId, {
       ...options,
       onProgress: (progress: JobProgress) => {
         const job = this.jobs.get(jobId);
         if (job) {
           job.progress = progress;
           console.log(`📊 Progress update for job ${jobId}: ${progress.progress}% - ${progress.message}`);
-          
+
+          if (!progress.isComplete && job.status === 'pending') {
+            job.status = 'running';
+          }
+
           // Mark job as completed when processing is done
           if (progress.isComplete && !job.completedAt) {
             job.completedAt = new Date();
-            
+            if (job.status === 'pending' || job.status === 'running') {
+              job.status = 'completed';
+            }
+
             // Schedule cleanup after some time
             setTimeout(() => {
               this.cleanupJob(jobId);
             }, this.JOB_CLEANUP_INTERVAL);
           }
+
+          JobStore.saveProgress(jobId, progress, job.status);
         }
+      },
+      onError: (error: ProcessingError) => {
+        JobStore.saveError(jobId, error);
+      },
+      onCheckpoint: (checkpoint: JobCheckpoint) => {
+        JobStore.saveCheckpoint(jobId, checkpoint);
       }
     });
+  }
 
-    const job: Job = {
-      id: jobId,
-      processor,
-      progress: processor.getProgress(),
-      createdAt: new Date()
-    };
-
-    this.jobs.set(jobId, job);
-    console.log(`✅ Job ${jobId} created and stored. Total jobs: ${this.jobs.size}`);
-    return job;
+  /**
+   * Whether a user may see or act on a job: the user who started it, or anyone granted jobs:all
+   */
+  static canAccessJob(job: Pick<Job, 'userId'>, user: User): boolean {
+    return job.userId === user.id || hasPermission(user.role, 'jobs:all');
   }
 
   /**
-   * Get job by ID
+   * Get a job the user may access
+   * Other users' jobs are reported as missing, so job IDs cannot be probed
    */
-  static getJob(jobId: string): Job | undefined {
-    return this.jobs.get(jobId);
+  static async getJobForUser(jobId: string, user: User): Promise<Job | undefined> {
+    const job = await this.getJob(jobId);
+    return job && this.canAccessJob(job, user) ? job : undefined;
   }
 
   /**
-   * Get job progress by ID
+   * Get job by ID, falling back to the job store for jobs not held in memory
    */
-  static getJobProgress(jobId: string): JobProgress | undefined {
+  static async getJob(jobId: string): Promise<Job | undefined> {
     const job = this.jobs.get(jobId);
-    console.log(`🔍 Looking for job ${jobId}: ${job ? 'FOUND' : 'NOT FOUND'}. Total jobs: ${this.jobs.size}`);
-    if (!job) {
-      console.log(`📋 Available job IDs: ${Array.from(this.jobs.keys()).join(', ')}`);
+    if (job) {
+      return job;
+    }
+
+    const stored = await JobStore.getJob(jobId);
+    if (!stored) {
+      return undefined;
+    }
+
+    const restored: Job = {
+      id: stored.id,
+      userId: stored.userId,
+      parentJobId: stored.parentJobId,
+      fileName: stored.fileName,
+      filePath: stored.filePath,
+      options: stored.options,
+      status: stored.status,
+      progress: stored.progress,
+      failedCsvPath: stored.failedCsvPath,
+      createdAt: stored.startedAt,
+      completedAt: stored.completedAt
+    };
+
+    // A job that is still pending or running in the store but not in memory
+    // was being processed by a server instance that no longer exists
+    if (restored.status === 'pending' || restored.status === 'running') {
+      console.warn(`⚠️ Job ${jobId} was interrupted before completion`);
+      restored.status = 'interrupted';
+      restored.progress = {
+        ...restored.progress,
+        isComplete: true,
+        message: 'Processing interrupted: the server stopped before this job finished'
+      };
+      await JobStore.saveProgress(jobId, restored.progress, restored.status);
     }
+
+    return restored;
+  }
+
+  /**
+   * Get job progress by ID
+   */
+  static async getJobProgress(jobId: string): Promise<JobProgress | undefined> {
+    const job = await this.getJob(jobId);
+    console.log(`🔍 Looking for job ${jobId}: ${job ? 'FOUND' : 'NOT FOUND'}. Jobs in memory: ${this.jobs.size}`);
     return job?.progress;
   }
 
@@ -79,7 +384,8 @@ export class JobManager {
    */
   static cancelJob(jobId: string): boolean {
     const job = this.jobs.get(jobId);
-    if (job && !job.progress.isComplete) {
+    if (job?.processor && !job.progress.isComplete) {
+      job.status = 'cancelled';
       job.processor.cancel();
       return true;
     }
@@ -87,30 +393,104 @@ export class JobManager {
   }
 
   /**
-   * Get failed records CSV path for a job
+   * Undo the inserts and updates a finished job made, using its change journal
+   * The job is marked rolled_back once no journal entries remain; conflicting entries
+   * are reported and left in place so the rollback can be retried after they are resolved
+   */
+  static async rollbackJob(jobId: string): Promise<RollbackJobResult> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      return { success: false, message: 'Job not found' };
+    }
+
+    if (job.status === 'pending' || job.status === 'running') {
+      return { success: false, message: 'Job is still running' };
+    }
+
+    if (await JobRollbackService.countPendingEntries(jobId) === 0) {
+      return { success: false, message: 'Job has no changes to roll back' };
+    }
+
+    const result = await JobRollbackService.rollbackJob(jobId);
+
+    if (result.conflicts.length === 0) {
+      job.status = 'rolled_back';
+      job.progress = {
+        ...job.progress,
+        message: `Rolled back: ${result.deleted} inserted students removed, ${result.reverted} updated students restored.`
+      };
+      await JobStore.saveProgress(jobId, job.progress, job.status);
+    }
+
+    return { success: true, result };
+  }
+
+  /**
+   * Mark a job as failed after an unrecoverable processing error
    */
-  static getFailedCsvPath(jobId: string): string | undefined {
+  static failJob(jobId: string, error: Error): void {
     const job = this.jobs.get(jobId);
-    return job?.processor.getFailedCsvPath();
+    if (!job) {
+      return;
+    }
+
+    job.status = 'failed';
+    job.completedAt = new Date();
+    job.progress = {
+      ...job.progress,
+      isComplete: true,
+      endTime: job.completedAt,
+      message: `Processing failed: ${error.message}`
+    };
+
+    JobStore.saveProgress(jobId, job.progress, job.status);
   }
 
   /**
-   * Clean up completed job
+   * Drop a completed job from memory; it is still served from the job store
+   * The failed-records CSV is kept, since job history downloads it and resuming appends to it,
+   * until removeExpiredFiles deletes it
    */
   static cleanupJob(jobId: string): void {
     const job = this.jobs.get(jobId);
     if (job && job.completedAt) {
-      // Clean up temp files
-      try {
-        const failedCsvPath = job.processor.getFailedCsvPath();
-        if (fs.existsSync(failedCsvPath)) {
-          fs.unlinkSync(failedCsvPath);
+      this.jobs.delete(jobId);
+    }
+  }
+
+  /**
+   * Mark a job with no live processor as interrupted, so it can be resumed, and drop it from memory
+   */
+  private static interruptJob(job: Job): void {
+    job.status = 'interrupted';
+    job.progress = {
+      ...job.progress,
+      isComplete: true,
+      message: 'Processing interrupted: the job stopped before it finished'
+    };
+    JobStore.saveProgress(job.id, job.progress, job.status);
+    this.jobs.delete(job.id);
+  }
+
+  /**
+   * Delete the upload and failed-records files of jobs that finished more than FILE_RETENTION_DAYS ago
+   * Their failed rows stay in the job store, so the summary and correction grid keep working; only
+   * downloading the failed-records CSV and resuming stop being possible
+   */
+  private static async removeExpiredFiles(): Promise<void> {
+    const expired = await JobStore.listExpiredFiles(FILE_RETENTION_DAYS);
+
+    for (const job of expired) {
+      for (const filePath of [job.filePath, job.failedCsvPath]) {
+        if (filePath) {
+          await fs.promises.rm(filePath, { force: true });
         }
-      } catch (error) {
-        console.error(`Failed to cleanup files for job ${jobId}:`, error);
       }
+      await JobStore.clearFiles(job.id);
+    }
 
-      this.jobs.delete(jobId);
+    if (expired.length > 0) {
+      console.log(`🧹 Removed files of ${expired.length} jobs older than ${FILE_RETENTION_DAYS} days`);
     }
   }
 
@@ -121,6 +501,26 @@ export class JobManager {
     return Array.from(this.jobs.values()).filter(job => !job.progress.isComplete);
   }
 
+  /**
+   * List stored jobs for the history page
+   * Jobs running in this process report their live progress; jobs the store still
+   * lists as running but no process holds are reported as interrupted
+   */
+  static async listJobs(filters: JobListFilters): Promise<{ jobs: JobListItem[]; total: number }> {
+    const { jobs, total } = await JobStore.listJobs(filters);
+
+    const listed = await Promise.all(jobs.map(async (stored) => {
+      if (stored.status !== 'pending' && stored.status !== 'running') {
+        return stored;
+      }
+
+      const job = await this.getJob(stored.id);
+      return job ? { ...stored, status: job.status, progress: job.progress } : stored;
+    }));
+
+    return { jobs: listed, total };
+  }
+
   /**
    * Get completed jobs
    */
@@ -142,18 +542,30 @@ export class JobManager {
           if (timeSinceCompletion > this.JOB_CLEANUP_INTERVAL) {
             this.cleanupJob(jobId);
           }
-        } else {
-          // Clean up stuck jobs older than 2 hours
+        } else if (!job.processing) {
+          // Jobs that never started or whose processor died without completing; long-running
+          // jobs are left alone so their final progress is still recorded
           const timeSinceCreation = now.getTime() - job.createdAt.getTime();
           if (timeSinceCreation > 2 * 60 * 60 * 1000) {
             console.warn(`Cleaning up stuck job ${jobId}`);
-            this.cleanupJob(jobId);
+            this.interruptJob(job);
           }
         }
       }
+
+      // Row validators of jobs whose failed rows are no longer being corrected
+      for (const [jobId, validator] of Array.from(this.rowValidators.entries())) {
+        if (now.getTime() - validator.lastUsedAt > this.ROW_VALIDATOR_IDLE_TIME) {
+          this.rowValidators.delete(jobId);
+        }
+      }
+
+      this.removeExpiredFiles().catch(error => {
+        console.error('Failed to remove expired job files:', error);
+      });
     }, 60 * 60 * 1000); // Run every hour
   }
 }
 
 // Start the cleanup scheduler when the module is loaded
-JobManager.startCleanupScheduler();
+JobManager.startCleanupScheduler();
\ No newline at end of file
@@ -0,0 +1,147 @@
+import mysql from 'mysql2/promise';
+import { executeQuery, executeTransaction } from './database';
+import { ChangeLogService } from './change-log';
+import { normalizeValue } from './update-policy';
+import { FieldChange, UploadChangeLogEntry } from './types';
+
+export interface RollbackConflict {
+  matricNo: string;
+  serialId: number;
+  action: UploadChangeLogEntry['action'];
+  reason: string;
+}
+
+export interface RollbackResult {
+  restored: number; // Journal entries undone
+  deleted: number; // Inserted students removed
+  reverted: number; // Updated students whose fields were put back
+  conflicts: RollbackConflict[];
+}
+
+// Primary key column of each journaled table
+const KEY_COLUMNS: Record<FieldChange['table'], string> = {
+  dlc_student: 'serialID',
+  dlc_student_id: 'applicant_serial'
+};
+
+class RollbackConflictError extends Error {}
+
+export class JobRollbackService {
+
+  /**
+   * Undo every journaled change a job made, newest first
+   * Entries whose rows were changed again afterwards are left alone and reported as conflicts;
+   * each entry is undone in its own transaction, so conflicts do not block the rest
+   */
+  static async rollbackJob(jobId: string): Promise<RollbackResult> {
+    const entries = (await ChangeLogService.getJobChanges(jobId))
+      .filter(entry => !entry.rolled_back_at)
+      .reverse();
+
+    const result: RollbackResult = { restored: 0, deleted: 0, reverted: 0, conflicts: [] };
+
+    for (const entry of entries) {
+      try {
+        await executeTransaction(async (connection) => {
+          await this.assertNoLaterChanges(connection, entry);
+          await this.assertCurrentValues(connection, entry);
+
+          if (entry.action === 'insert') {
+            await connection.execute('DELETE FROM dlc_student_id WHERE applicant_serial = ?', [entry.serial_id]);
+            await connection.execute('DELETE FROM dlc_student WHERE serialID = ?', [entry.serial_id]);
+          } else {
+            for (const change of entry.changes as FieldChange[]) {
+              await connection.execute(
+                `UPDATE ${change.table} SET ${this.column(change.field)} = ? WHERE ${KEY_COLUMNS[change.table]} = ?`,
+                [change.before, entry.serial_id]
+              );
+            }
+          }
+
+          await connection.execute('UPDATE upload_change_log SET rolled_back_at = NOW() WHERE id = ?', [entry.id]);
+        });
+
+        result.restored++;
+        if (entry.action === 'insert') {
+          result.deleted++;
+        } else {
+          result.reverted++;
+        }
+      } catch (error) {
+        const reason = error instanceof RollbackConflictError
+          ? error.message
+          : `Could not be restored: ${error instanceof Error ? error.message : 'unknown error'}`;
+        console.warn(`⚠️ Rollback conflict for ${entry.matric_no} in job ${jobId}: ${reason}`);
+        result.conflicts.push({
+          matricNo: entry.matric_no,
+          serialId: entry.serial_id,
+          action: entry.action,
+          reason
+        });
+      }
+    }
+
+    console.log(`↩️ Rolled back job ${jobId}: ${result.restored} restored, ${result.conflicts.length} conflicts`);
+    return result;
+  }
+
+  /**
+   * Count journal entries of a job that have not been rolled back yet
+   */
+  static async countPendingEntries(jobId: string): Promise<number> {
+    const rows = await executeQuery<{ pending: number }>(
+      'SELECT COUNT(*) AS pending FROM upload_change_log WHERE job_id = ? AND rolled_back_at IS NULL',
+      [jobId]
+    );
+    return Number(rows[0]?.pending || 0);
+  }
+
+  /**
+   * Refuse to undo a change that a later upload job changed again
+   */
+  private static async assertNoLaterChanges(connection: mysql.PoolConnection, entry: UploadChangeLogEntry): Promise<void> {
+    const [rows] = await connection.execute(
+      `SELECT job_id FROM upload_change_log
+       WHERE serial_id = ? AND id > ? AND job_id <> ? AND rolled_back_at IS NULL
+       ORDER BY id LIMIT 1`,
+      [entry.serial_id, entry.id, entry.job_id]
+    );
+
+    const later = (rows as Array<{ job_id: string }>)[0];
+    if (later) {
+      throw new RollbackConflictError(`Changed again by job ${later.job_id}`);
+    }
+  }
+
+  /**
+   * Refuse to undo a change whose fields no longer hold the values the job wrote,
+   * e.g. after a manual edit
+   */
+  private static async assertCurrentValues(connection: mysql.PoolConnection, entry: UploadChangeLogEntry): Promise<void> {
+    for (const change of entry.changes as FieldChange[]) {
+      const [rows] = await connection.execute(
+        `SELECT ${this.column(change.field)} AS value FROM ${change.table} WHERE ${KEY_COLUMNS[change.table]} = ? FOR UPDATE`,
+        [entry.serial_id]
+      );
+
+      const current = (rows as Array<{ value: unknown }>)[0];
+      if (!current) {
+        throw new RollbackConflictError(`Row no longer exists in ${change.table}`);
+      }
+
+      if (normalizeValue(current.value) !== normalizeValue(change.after)) {
+        throw new RollbackConflictError(`${change.field} was changed after the upload`);
+      }
+    }
+  }
+
+  /**
+   * Journal field names are interpolated into SQL, so only plain column names are accepted
+   */
+  private static column(field: string): string {
+    if (!/^\w+$/.test(field)) {
+      throw new Error(`Invalid column in change log: ${field}`);
+    }
+    return field;
+  }
+}
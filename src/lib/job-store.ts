@@ -0,0 +1,472 @@
+import { executeQuery } from './database';
+import { ErrorGroups } from './processing-errors';
+import { normalizeValue } from './update-policy';
+import {
+  JobCheckpoint,
+  JobProgress,
+  JobStatus,
+  ProcessingError,
+  ProcessingErrorCode,
+  UploadJob,
+  UploadJobError
+} from './types';
+
+export interface StoredJob {
+  id: string;
+  userId: number | null;
+  parentJobId: string | null;
+  fileName: string | null;
+  filePath: string | null;
+  options: Record<string, unknown>;
+  status: JobStatus;
+  progress: JobProgress;
+  failedCsvPath: string | null;
+  checkpoint?: JobCheckpoint;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export interface NewStoredJob {
+  id: string;
+  userId?: number | null;
+  parentJobId?: string | null;
+  fileName?: string | null;
+  filePath?: string | null;
+  options: Record<string, unknown>;
+  progress: JobProgress;
+  failedCsvPath: string;
+}
+
+export interface JobListFilters {
+  userId?: number;
+  status?: JobStatus;
+  from?: Date; // Jobs started on or after
+  to?: Date; // Jobs started before
+  limit: number;
+  offset: number;
+}
+
+export interface JobListItem extends StoredJob {
+  userName: string | null;
+  userEmail: string | null;
+}
+
+export interface JobUploader {
+  id: number;
+  name: string;
+  email: string;
+}
+
+// byValue holds the most frequent offending values, e.g. one unknown department failing thousands of rows
+export interface JobErrorSummary extends ErrorGroups {
+  total: number;
+  rows: Array<{
+    rowNumber: number;
+    matricNumber: string | null;
+    reason: string;
+    code: ProcessingErrorCode;
+    field: string | null;
+    value: string | null;
+  }>;
+}
+
+// Largest number of failed rows returned with a job's error summary
+const ERROR_SAMPLE_SIZE = 100;
+// Largest number of offending values returned with a job's error summary
+const ERROR_VALUE_GROUPS = 50;
+// Largest number of failed rows loaded into the correction grid
+const FAILED_ROWS_LIMIT = 1000;
+// Largest number of jobs whose files are removed in one retention sweep
+const EXPIRED_FILES_BATCH = 500;
+
+export interface FailedRow {
+  rowNumber: number;
+  code: ProcessingErrorCode;
+  field: string | null;
+  value: string | null;
+  reason: string;
+  data: Record<string, string>;
+}
+
+export class JobStore {
+  // Progress writes are chained per job so a slow UPDATE can never overwrite a newer snapshot
+  private static pendingWrites = new Map<string, Promise<void>>();
+  // Only the newest checkpoint waiting to be written is kept
+  private static queuedCheckpoints = new Map<string, JobCheckpoint>();
+
+  /**
+   * Persist a newly created job
+   */
+  static async createJob(job: NewStoredJob): Promise<void> {
+    const query = `
+      INSERT INTO upload_jobs (id, user_id, parent_job_id, file_name, file_path, options, status, progress, failed_csv_path, started_at)
+      VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+    `;
+
+    await executeQuery(query, [
+      job.id,
+      job.userId ?? null,
+      job.parentJobId ?? null,
+      job.fileName ?? null,
+      job.filePath ?? null,
+      JSON.stringify(this.serializableOptions(job.options)),
+      JSON.stringify(job.progress),
+      job.failedCsvPath,
+      job.progress.startTime
+    ]);
+  }
+
+  /**
+   * Queue a progress snapshot (and optionally a status change) for a job
+   */
+  static saveProgress(jobId: string, progress: JobProgress, status?: JobStatus): Promise<void> {
+    return this.enqueueWrite(jobId, async () => {
+      const query = `
+        UPDATE upload_jobs SET
+          progress = ?,
+          status = COALESCE(?, status),
+          completed_at = ?
+        WHERE id = ?
+      `;
+
+      await executeQuery(query, [
+        JSON.stringify(progress),
+        status ?? null,
+        progress.endTime ?? null,
+        jobId
+      ]);
+    });
+  }
+
+  /**
+   * Queue the last committed row for a job. Checkpoints arrive once per committed batch,
+   * and any that arrive while a write is pending are coalesced into a single UPDATE.
+   */
+  static saveCheckpoint(jobId: string, checkpoint: JobCheckpoint): void {
+    const alreadyQueued = this.queuedCheckpoints.has(jobId);
+    this.queuedCheckpoints.set(jobId, checkpoint);
+
+    if (alreadyQueued) {
+      return;
+    }
+
+    this.enqueueWrite(jobId, async () => {
+      const latest = this.queuedCheckpoints.get(jobId);
+      this.queuedCheckpoints.delete(jobId);
+      if (!latest) {
+        return;
+      }
+
+      await executeQuery(
+        'UPDATE upload_jobs SET last_committed_row = ?, checkpoint = ? WHERE id = ?',
+        [latest.lastCommittedRow, JSON.stringify(latest.progress), jobId]
+      );
+    });
+  }
+
+  /**
+   * Queue a failed row for a job
+   * A resumed job may fail the same row again, so the latest reason wins
+   */
+  static saveError(jobId: string, error: ProcessingError): Promise<void> {
+    return this.enqueueWrite(jobId, async () => {
+      const query = `
+        INSERT INTO upload_job_errors (job_id, row_no, matric_no, reason, code, field, value, row_data)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE
+          reason = VALUES(reason), code = VALUES(code), field = VALUES(field),
+          value = VALUES(value), row_data = VALUES(row_data)
+      `;
+
+      const result = await executeQuery(query, [
+        jobId,
+        error.rowNumber,
+        error.originalRow['Matric Number']?.trim() || null,
+        error.reason.slice(0, 500),
+        error.code,
+        error.field ?? null,
+        error.value?.slice(0, 255) ?? null,
+        // Workbook dates are stored as YYYY-MM-DD so corrected rows parse like CSV text
+        JSON.stringify(Object.fromEntries(
+          Object.entries(error.originalRow).map(([field, value]) => [field, value instanceof Date ? normalizeValue(value) : value])
+        ))
+      ]);
+
+      // Replace the further causes recorded when a resumed job failed the row before
+      const replaced = (result as unknown as { affectedRows: number }).affectedRows !== 1;
+      const furtherCauses = error.causes?.slice(1) || [];
+      if (replaced) {
+        await executeQuery('DELETE FROM upload_job_error_causes WHERE job_id = ? AND row_no = ?', [jobId, error.rowNumber]);
+      }
+      if (furtherCauses.length > 0) {
+        await executeQuery(
+          `INSERT INTO upload_job_error_causes (job_id, row_no, code, field, value)
+           VALUES ${furtherCauses.map(() => '(?, ?, ?, ?, ?)').join(', ')}`,
+          furtherCauses.flatMap(cause => [jobId, error.rowNumber, cause.code, cause.field ?? null, cause.value?.slice(0, 255) ?? null])
+        );
+      }
+    });
+  }
+
+  /**
+   * Failed rows of a job grouped by error code and by offending value, counting every
+   * problem of rows that had several, with the first rows in file order
+   */
+  static async getErrorSummary(jobId: string): Promise<JobErrorSummary> {
+    const causes = `
+      SELECT code, field, value FROM upload_job_errors WHERE job_id = ?
+      UNION ALL
+      SELECT code, field, value FROM upload_job_error_causes WHERE job_id = ?
+    `;
+    const byCode = await executeQuery<{ code: ProcessingErrorCode; count: number }>(
+      `SELECT code, COUNT(*) AS count FROM (${causes}) causes GROUP BY code ORDER BY count DESC, code`,
+      [jobId, jobId]
+    );
+    const byValue = await executeQuery<{ code: ProcessingErrorCode; field: string | null; value: string | null; count: number }>(
+      `SELECT code, field, value, COUNT(*) AS count FROM (${causes}) causes
+       GROUP BY code, field, value
+       ORDER BY count DESC, code LIMIT ${ERROR_VALUE_GROUPS}`,
+      [jobId, jobId]
+    );
+    const [count] = await executeQuery<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM upload_job_errors WHERE job_id = ?',
+      [jobId]
+    );
+    const rows = await executeQuery<UploadJobError>(
+      `SELECT row_no, matric_no, reason, code, field, value FROM upload_job_errors
+       WHERE job_id = ? ORDER BY row_no LIMIT ${ERROR_SAMPLE_SIZE}`,
+      [jobId]
+    );
+
+    return {
+      total: Number(count?.total || 0),
+      byCode: byCode.map(group => ({ code: group.code, count: Number(group.count) })),
+      byValue: byValue.map(group => ({ ...group, count: Number(group.count) })),
+      rows: rows.map(row => ({
+        rowNumber: row.row_no,
+        matricNumber: row.matric_no,
+        reason: row.reason,
+        code: row.code,
+        field: row.field,
+        value: row.value
+      }))
+    };
+  }
+
+  /**
+   * Failed rows of a job with their original values, in file order
+   */
+  static async getFailedRows(jobId: string): Promise<{ rows: FailedRow[]; total: number }> {
+    const rows = await executeQuery<UploadJobError>(
+      `SELECT row_no, reason, code, field, value, row_data FROM upload_job_errors
+       WHERE job_id = ? ORDER BY row_no LIMIT ${FAILED_ROWS_LIMIT}`,
+      [jobId]
+    );
+    const [count] = await executeQuery<{ total: number }>(
+      'SELECT COUNT(*) AS total FROM upload_job_errors WHERE job_id = ?',
+      [jobId]
+    );
+
+    return {
+      rows: rows.map(row => {
+        const data = typeof row.row_data === 'string' ? JSON.parse(row.row_data) : (row.row_data || {});
+        delete data.rowNumber;
+        return {
+          rowNumber: row.row_no,
+          code: row.code,
+          field: row.field,
+          value: row.value,
+          reason: row.reason,
+          data
+        };
+      }),
+      total: Number(count?.total || 0)
+    };
+  }
+
+  /**
+   * Run a write after any earlier writes for the same job have finished
+   */
+  private static enqueueWrite(jobId: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.pendingWrites.get(jobId) || Promise.resolve();
+
+    const write = previous.then(async () => {
+      try {
+        await operation();
+      } catch (error) {
+        console.error(`Failed to persist state for job ${jobId}:`, error);
+      }
+    });
+
+    this.pendingWrites.set(jobId, write);
+    write.then(() => {
+      if (this.pendingWrites.get(jobId) === write) {
+        this.pendingWrites.delete(jobId);
+      }
+    });
+
+    return write;
+  }
+
+  /**
+   * Finished jobs that ended more than `retentionDays` ago and still record an upload or failed-records file
+   */
+  static async listExpiredFiles(retentionDays: number): Promise<Array<Pick<StoredJob, 'id' | 'filePath' | 'failedCsvPath'>>> {
+    const rows = await executeQuery<Pick<UploadJob, 'id' | 'file_path' | 'failed_csv_path'>>(
+      `SELECT id, file_path, failed_csv_path FROM upload_jobs
+       WHERE status NOT IN ('pending', 'running')
+         AND COALESCE(completed_at, updated_at) < DATE_SUB(NOW(), INTERVAL ? DAY)
+         AND (file_path IS NOT NULL OR failed_csv_path IS NOT NULL)
+       LIMIT ${EXPIRED_FILES_BATCH}`,
+      [retentionDays]
+    );
+
+    return rows.map(row => ({ id: row.id, filePath: row.file_path, failedCsvPath: row.failed_csv_path }));
+  }
+
+  /**
+   * Forget a job's files once they have been deleted; its failed rows stay in upload_job_errors
+   */
+  static async clearFiles(jobId: string): Promise<void> {
+    await executeQuery('UPDATE upload_jobs SET file_path = NULL, failed_csv_path = NULL WHERE id = ?', [jobId]);
+  }
+
+  /**
+   * Load a job by ID
+   */
+  static async getJob(jobId: string): Promise<StoredJob | null> {
+    const query = `
+      SELECT id, user_id, parent_job_id, file_name, file_path, options, status, progress, failed_csv_path,
+             last_committed_row, checkpoint, started_at, completed_at
+      FROM upload_jobs WHERE id = ?
+    `;
+    const rows = await executeQuery<UploadJob>(query, [jobId]);
+
+    return rows.length > 0 ? this.fromRow(rows[0]) : null;
+  }
+
+  /**
+   * List jobs newest first with their uploader, filtered by user, status and start date
+   */
+  static async listJobs(filters: JobListFilters): Promise<{ jobs: JobListItem[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filters.userId) {
+      conditions.push('j.user_id = ?');
+      params.push(filters.userId);
+    }
+    if (filters.status) {
+      conditions.push('j.status = ?');
+      params.push(filters.status);
+    }
+    if (filters.from) {
+      conditions.push('j.started_at >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('j.started_at < ?');
+      params.push(filters.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // LIMIT/OFFSET are inlined: prepared statements reject them as parameters on some MySQL versions
+    const query = `
+      SELECT j.id, j.user_id, j.parent_job_id, j.file_name, j.file_path, j.options, j.status, j.progress, j.failed_csv_path,
+             j.last_committed_row, j.checkpoint, j.started_at, j.completed_at,
+             u.name AS user_name, u.email AS user_email
+      FROM upload_jobs j
+      LEFT JOIN staff_users u ON u.id = j.user_id
+      ${where}
+      ORDER BY j.started_at DESC
+      LIMIT ${Math.floor(filters.limit)} OFFSET ${Math.floor(filters.offset)}
+    `;
+    const rows = await executeQuery<UploadJob & { user_name: string | null; user_email: string | null }>(query, params);
+    const [count] = await executeQuery<{ total: number }>(
+      `SELECT COUNT(*) AS total FROM upload_jobs j ${where}`,
+      params
+    );
+
+    return {
+      jobs: rows.map(row => ({
+        ...this.fromRow(row),
+        userName: row.user_name,
+        userEmail: row.user_email
+      })),
+      total: Number(count?.total || 0)
+    };
+  }
+
+  /**
+   * Staff users who have uploaded at least one file
+   */
+  static async listUploaders(): Promise<JobUploader[]> {
+    return executeQuery<JobUploader>(`
+      SELECT DISTINCT u.id, u.name, u.email
+      FROM upload_jobs j
+      JOIN staff_users u ON u.id = j.user_id
+      ORDER BY u.name
+    `);
+  }
+
+  /**
+   * Map a database row to a StoredJob, reviving JSON columns and dates
+   */
+  private static fromRow(row: UploadJob): StoredJob {
+    const options = typeof row.options === 'string' ? JSON.parse(row.options) : (row.options || {});
+    const progress = this.reviveProgress(row, row.progress);
+    const checkpoint: JobCheckpoint | undefined = row.last_committed_row > 0 && row.checkpoint
+      ? { lastCommittedRow: row.last_committed_row, progress: this.reviveProgress(row, row.checkpoint) }
+      : undefined;
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      parentJobId: row.parent_job_id,
+      fileName: row.file_name,
+      filePath: row.file_path,
+      options,
+      status: row.status,
+      progress,
+      failedCsvPath: row.failed_csv_path,
+      checkpoint,
+      startedAt: new Date(row.started_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+    };
+  }
+
+  /**
+   * Parse a JSON progress snapshot, filling defaults and restoring Date fields
+   */
+  private static reviveProgress(row: UploadJob, value: JobProgress | string | null): JobProgress {
+    const raw = typeof value === 'string' ? JSON.parse(value) : value;
+
+    return {
+      jobId: row.id,
+      progress: 0,
+      totalRecords: 0,
+      processedRecords: 0,
+      insertedRecords: 0,
+      updatedRecords: 0,
+      unchangedRecords: 0,
+      duplicateSkippedRecords: 0,
+      failedRecordsCount: 0,
+      currentRow: 0,
+      message: '',
+      isComplete: false,
+      ...raw,
+      startTime: new Date(raw?.startTime || row.started_at),
+      endTime: raw?.endTime ? new Date(raw.endTime) : undefined
+    };
+  }
+
+  /**
+   * Strip callbacks and other non-JSON values from processing options
+   */
+  private static serializableOptions(options: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(options).filter(([, value]) => typeof value !== 'function' && value !== undefined)
+    );
+  }
+}
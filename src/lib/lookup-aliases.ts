@@ -0,0 +1,150 @@
+import { executeQuery } from './database';
+import { LookupCache } from './lookup-cache';
+import { LookupAlias, LookupType } from './types';
+
+export interface LookupTarget {
+  id: number;
+  name: string;
+  stateId?: number; // Only set for LGAs
+}
+
+export interface LookupAliasWithTarget {
+  id: number;
+  lookupType: LookupType;
+  alias: string;
+  targetId: number;
+  targetName: string | null; // Null when the target row has since been removed
+  createdBy: number | null;
+  createdAt: Date;
+}
+
+export interface CreateAliasResult {
+  success: boolean;
+  aliasId?: number;
+  message?: string;
+}
+
+interface LookupTableDefinition {
+  label: string;
+  listQuery: string; // Every value of the lookup table as id/name
+  existsQuery: string;
+}
+
+export const LOOKUP_TABLES: Record<LookupType, LookupTableDefinition> = {
+  marital_status: {
+    label: 'Marital status',
+    listQuery: 'SELECT status_serial AS id, status_name AS name FROM dlc_marital_status ORDER BY status_name',
+    existsQuery: 'SELECT status_serial FROM dlc_marital_status WHERE status_serial = ?'
+  },
+  course_of_study: {
+    label: 'Course of study',
+    listQuery: 'SELECT serialid AS id, course_of_study AS name FROM dlc_course_of_study ORDER BY course_of_study',
+    existsQuery: 'SELECT serialid FROM dlc_course_of_study WHERE serialid = ?'
+  },
+  state: {
+    label: 'State',
+    listQuery: 'SELECT state_id AS id, state_name AS name FROM dlc_state ORDER BY state_name',
+    existsQuery: 'SELECT state_id FROM dlc_state WHERE state_id = ?'
+  },
+  lga: {
+    label: 'LGA',
+    listQuery: 'SELECT lga_id AS id, lga_name AS name, state_id AS stateId FROM dlc_lga ORDER BY lga_name',
+    existsQuery: 'SELECT lga_id FROM dlc_lga WHERE lga_id = ?'
+  },
+  session: {
+    label: 'Session',
+    listQuery: 'SELECT sessionID AS id, sessionName AS name FROM dlc_session ORDER BY sessionName',
+    existsQuery: 'SELECT sessionID FROM dlc_session WHERE sessionID = ?'
+  }
+};
+
+export const LOOKUP_TYPES = Object.keys(LOOKUP_TABLES) as LookupType[];
+
+export class LookupAliasService {
+
+  /**
+   * Every value of a lookup table, for choosing an alias target
+   */
+  static async listTargets(lookupType: LookupType): Promise<LookupTarget[]> {
+    return executeQuery<LookupTarget>(LOOKUP_TABLES[lookupType].listQuery);
+  }
+
+  /**
+   * List aliases with the names of the values they point to
+   */
+  static async listAliases(): Promise<LookupAliasWithTarget[]> {
+    const aliases = await executeQuery<LookupAlias>(
+      'SELECT id, lookup_type, alias, target_id, created_by, created_at FROM lookup_aliases ORDER BY lookup_type, alias'
+    );
+
+    const targetNames = new Map<string, string>();
+    for (const lookupType of new Set(aliases.map(alias => alias.lookup_type))) {
+      for (const target of await this.listTargets(lookupType)) {
+        targetNames.set(`${lookupType}:${target.id}`, target.name);
+      }
+    }
+
+    return aliases.map(alias => ({
+      id: alias.id,
+      lookupType: alias.lookup_type,
+      alias: alias.alias,
+      targetId: alias.target_id,
+      targetName: targetNames.get(`${alias.lookup_type}:${alias.target_id}`) ?? null,
+      createdBy: alias.created_by,
+      createdAt: alias.created_at
+    }));
+  }
+
+  /**
+   * Save a spelling as an alias of an existing lookup value
+   */
+  static async createAlias(lookupType: string, alias: string, targetId: number, createdBy: number): Promise<CreateAliasResult> {
+    const definition = LOOKUP_TABLES[lookupType as LookupType];
+    if (!definition) {
+      return { success: false, message: `Unknown lookup type: ${lookupType}` };
+    }
+
+    if (!alias?.trim()) {
+      return { success: false, message: 'Alias is required' };
+    }
+
+    if (!Number.isInteger(targetId)) {
+      return { success: false, message: 'Target value is required' };
+    }
+
+    const targets = await executeQuery(definition.existsQuery, [targetId]);
+    if (targets.length === 0) {
+      return { success: false, message: `${definition.label} ${targetId} not found` };
+    }
+
+    const existing = await executeQuery(
+      'SELECT id FROM lookup_aliases WHERE lookup_type = ? AND LOWER(alias) = LOWER(?)',
+      [lookupType, alias.trim()]
+    );
+    if (existing.length > 0) {
+      return { success: false, message: `"${alias.trim()}" is already an alias for a ${definition.label.toLowerCase()}` };
+    }
+
+    const result = await executeQuery(
+      'INSERT INTO lookup_aliases (lookup_type, alias, target_id, created_by) VALUES (?, ?, ?, ?)',
+      [lookupType, alias.trim(), targetId, createdBy]
+    );
+
+    console.log(`🏷️ Saved ${lookupType} alias "${alias.trim()}" -> ${targetId}`);
+    LookupCache.invalidate();
+    return { success: true, aliasId: (result as unknown as { insertId: number }).insertId };
+  }
+
+  /**
+   * Delete an alias
+   * @returns false when the alias does not exist
+   */
+  static async deleteAlias(id: number): Promise<boolean> {
+    const result = await executeQuery('DELETE FROM lookup_aliases WHERE id = ?', [id]);
+    const deleted = (result as unknown as { affectedRows: number }).affectedRows > 0;
+    if (deleted) {
+      LookupCache.invalidate();
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,177 @@
+import { executeQuery } from './database';
+import {
+  DlcMaritalStatus,
+  DlcSession,
+  DlcCourseOfStudy,
+  DlcState,
+  DlcLga,
+  LookupAlias,
+  LookupType
+} from './types';
+
+/**
+ * Case-insensitive key, so names match whatever case the upload uses
+ */
+function lookupKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Reference tables held in memory for the lifetime of one job, so each row's lookups
+ * need no database round trips. Names not found in a table fall back to staff-defined aliases.
+ * Every cache reloads on its next lookup after LookupCache.invalidate().
+ */
+export class LookupCache {
+  private static generation = 0;
+
+  private loadedGeneration = -1;
+  private loading: Promise<void> | null = null;
+  private maritalStatuses = new Map<string, number>();
+  private sessions = new Map<string, number>();
+  private courses = new Map<string, number>();
+  private states = new Map<string, number>();
+  private lgas = new Map<string, DlcLga[]>(); // Same LGA name can exist in several states
+  private aliases = new Map<string, number>();
+
+  /**
+   * Make every job's cache reload its tables before the next lookup,
+   * e.g. after reference data or aliases change
+   */
+  static invalidate(): void {
+    this.generation++;
+    console.log(`🧹 Lookup caches invalidated (generation ${this.generation})`);
+  }
+
+  /**
+   * Load the reference tables, or reload them if they were invalidated since the last load
+   */
+  async ensureLoaded(): Promise<void> {
+    while (this.loadedGeneration !== LookupCache.generation) {
+      if (!this.loading) {
+        this.loading = this.load().finally(() => {
+          this.loading = null;
+        });
+      }
+      await this.loading;
+    }
+  }
+
+  /**
+   * Marital status serial, or default 1 if not found
+   */
+  async lookupMaritalStatus(statusName: string): Promise<{ statusSerial: number; isDefault: boolean }> {
+    await this.ensureLoaded();
+
+    const statusSerial = this.maritalStatuses.get(lookupKey(statusName)) ?? this.findAlias('marital_status', statusName);
+    return statusSerial ? { statusSerial, isDefault: false } : { statusSerial: 1, isDefault: true };
+  }
+
+  /**
+   * Session ID for a session name ("2020") or its full form ("2020/2021")
+   */
+  async lookupSession(yearOfEntry: string): Promise<number | null> {
+    await this.ensureLoaded();
+    return this.sessions.get(lookupKey(yearOfEntry || '')) ?? this.findAlias('session', yearOfEntry);
+  }
+
+  /**
+   * Course of study by department, falling back to programme if department is empty
+   */
+  async lookupCourseOfStudy(department: string, programme?: string): Promise<number | null> {
+    await this.ensureLoaded();
+
+    const searchTerm = department?.trim() || programme?.trim();
+    if (!searchTerm) {
+      return null;
+    }
+
+    return this.courses.get(lookupKey(searchTerm)) ?? this.findAlias('course_of_study', searchTerm);
+  }
+
+  async lookupState(stateName: string): Promise<number | null> {
+    await this.ensureLoaded();
+
+    if (!stateName?.trim()) {
+      return null;
+    }
+
+    return this.states.get(lookupKey(stateName)) ?? this.findAlias('state', stateName);
+  }
+
+  /**
+   * LGA by name within the given state, falling back to the first LGA with that name in any state
+   */
+  async lookupLga(lgaName: string, stateId?: number | null): Promise<{ lgaId: number | null; usedFallback: boolean }> {
+    await this.ensureLoaded();
+
+    if (!lgaName?.trim()) {
+      return { lgaId: null, usedFallback: false };
+    }
+
+    const matches = this.lgas.get(lookupKey(lgaName)) || [];
+    if (stateId) {
+      const inState = matches.find(lga => lga.state_id === stateId);
+      if (inState) {
+        return { lgaId: inState.lga_id, usedFallback: false };
+      }
+    }
+
+    if (matches.length > 0) {
+      return { lgaId: matches[0].lga_id, usedFallback: true };
+    }
+
+    return { lgaId: this.findAlias('lga', lgaName), usedFallback: false };
+  }
+
+  private findAlias(lookupType: LookupType, value: string): number | null {
+    if (!value?.trim()) {
+      return null;
+    }
+    return this.aliases.get(`${lookupType}:${lookupKey(value)}`) ?? null;
+  }
+
+  private async load(): Promise<void> {
+    const generation = LookupCache.generation;
+
+    const [maritalStatuses, sessions, courses, states, lgas, aliases] = await Promise.all([
+      executeQuery<DlcMaritalStatus>('SELECT status_serial, status_name FROM dlc_marital_status ORDER BY status_serial'),
+      executeQuery<DlcSession>('SELECT sessionID, sessionName FROM dlc_session ORDER BY sessionID'),
+      executeQuery<DlcCourseOfStudy>('SELECT serialid, course_of_study FROM dlc_course_of_study ORDER BY serialid'),
+      executeQuery<DlcState>('SELECT state_id, state_name FROM dlc_state ORDER BY state_id'),
+      executeQuery<DlcLga>('SELECT lga_id, lga_name, state_id FROM dlc_lga ORDER BY lga_id'),
+      executeQuery<LookupAlias>('SELECT lookup_type, alias, target_id FROM lookup_aliases')
+    ]);
+
+    // The first row wins when names collide, as with the SQL lookups
+    this.maritalStatuses = this.index(maritalStatuses.map(status => [status.status_name, status.status_serial]));
+    this.courses = this.index(courses.map(course => [course.course_of_study, course.serialid]));
+    this.states = this.index(states.map(state => [state.state_name, state.state_id]));
+    this.aliases = this.index(aliases.map(alias => [`${alias.lookup_type}:${alias.alias}`, alias.target_id]));
+
+    // A session matches its name or "<name>/<name + 1>", e.g. "2020/2021"
+    this.sessions = this.index(sessions.flatMap(session => [
+      [session.sessionName, session.sessionID],
+      [`${session.sessionName}/${(parseInt(session.sessionName) || 0) + 1}`, session.sessionID]
+    ] as Array<[string, number]>));
+
+    this.lgas = new Map();
+    for (const lga of lgas) {
+      const key = lookupKey(lga.lga_name);
+      this.lgas.set(key, [...(this.lgas.get(key) || []), lga]);
+    }
+
+    this.loadedGeneration = generation;
+    console.log(`📚 Lookup cache loaded: ${courses.length} courses, ${states.length} states, ${lgas.length} LGAs, ${sessions.length} sessions, ${aliases.length} aliases`);
+  }
+
+  private index(entries: Array<[string, number]>): Map<string, number> {
+    const map = new Map<string, number>();
+    for (const [name, id] of entries) {
+      const key = lookupKey(name);
+      if (!map.has(key)) {
+        map.set(key, id);
+      }
+    }
+    return map;
+  }
+}
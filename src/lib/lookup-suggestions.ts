@@ -0,0 +1,114 @@
+import { executeQuery } from './database';
+import { FuzzyMatch, findClosestMatches } from './fuzzy-match';
+import { LOOKUP_TABLES, LookupAliasService, LookupTarget } from './lookup-aliases';
+import { LookupType } from './types';
+
+// Lookups that fail on unrecognised names and can be corrected by a fuzzy suggestion
+export type LookupField = Extract<LookupType, 'course_of_study' | 'state' | 'lga'>;
+
+// A suggestion accepted by staff: rows with this value use the chosen ID
+export interface LookupCorrection {
+  field: LookupField;
+  value: string;
+  id: number;
+}
+
+// A distinct value a job could not look up, with the number of rows using it
+export interface UnknownLookup {
+  field: LookupField;
+  value: string;
+  stateId: number | null; // State of the first row using an unknown LGA, to prefer LGAs in that state
+  rows: number;
+}
+
+export interface LookupSuggestion {
+  field: LookupField;
+  value: string;
+  rows: number;
+  candidates: FuzzyMatch[];
+}
+
+const LOOKUP_FIELDS: LookupField[] = ['course_of_study', 'state', 'lga'];
+
+/**
+ * Key of a correction for a value, matching lookups' case-insensitive comparison
+ */
+export function lookupCorrectionKey(field: LookupField, value: string): string {
+  return `${field}:${value.trim().toLowerCase()}`;
+}
+
+export class LookupSuggestionService {
+
+  /**
+   * Nearest lookup names for each unknown value; values without a close enough candidate get none
+   */
+  static async suggest(unknowns: UnknownLookup[], threshold?: number): Promise<LookupSuggestion[]> {
+    const candidates = new Map<LookupField, LookupTarget[]>();
+    const suggestions: LookupSuggestion[] = [];
+
+    for (const unknown of unknowns) {
+      if (!candidates.has(unknown.field)) {
+        candidates.set(unknown.field, await LookupAliasService.listTargets(unknown.field));
+      }
+      const fieldCandidates = candidates.get(unknown.field) || [];
+
+      // Prefer LGAs of the row's state, falling back to every LGA
+      let matches: FuzzyMatch[] = [];
+      if (unknown.field === 'lga' && unknown.stateId) {
+        const inState = fieldCandidates.filter(candidate => candidate.stateId === unknown.stateId);
+        matches = findClosestMatches(unknown.value, inState, { threshold });
+      }
+      if (matches.length === 0) {
+        matches = findClosestMatches(unknown.value, fieldCandidates, { threshold });
+      }
+
+      suggestions.push({
+        field: unknown.field,
+        value: unknown.value,
+        rows: unknown.rows,
+        candidates: matches.map(({ id, name, score }) => ({ id, name, score }))
+      });
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Parse accepted corrections sent with an upload and check each ID still exists
+   */
+  static async parseCorrections(json: string | null): Promise<LookupCorrection[]> {
+    if (!json) {
+      return [];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('Lookup corrections must be valid JSON');
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('Lookup corrections must be a list');
+    }
+
+    const corrections: LookupCorrection[] = [];
+    for (const entry of parsed) {
+      const field = entry?.field as LookupField;
+      const id = Number(entry?.id);
+      if (!LOOKUP_FIELDS.includes(field) || typeof entry.value !== 'string' || !entry.value.trim() || !Number.isInteger(id)) {
+        throw new Error(`Invalid lookup correction: ${JSON.stringify(entry)}`);
+      }
+      corrections.push({ field, value: entry.value.trim(), id });
+    }
+
+    for (const correction of corrections) {
+      const rows = await executeQuery(LOOKUP_TABLES[correction.field].existsQuery, [correction.id]);
+      if (rows.length === 0) {
+        throw new Error(`Lookup correction for "${correction.value}" refers to a missing ${correction.field} (${correction.id})`);
+      }
+    }
+
+    return corrections;
+  }
+}
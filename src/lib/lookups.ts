@@ -1,183 +1,64 @@
 import { executeQuery } from './database';
-import { 
-  DlcMaritalStatus, 
-  DlcSession, 
-  DlcCourseOfStudy, 
-  DlcState, 
-  DlcLga 
-} from './types';
 
-export class DatabaseLookups {
-  
-  /**
-   * Lookup marital status by name (case-insensitive)
-   * Returns status_serial or default 1 if not found
-   */
-  static async lookupMaritalStatus(statusName: string): Promise<{ statusSerial: number; isDefault: boolean }> {
-    try {
-      const query = 'SELECT status_serial FROM dlc_marital_status WHERE LOWER(status_name) = LOWER(?)';
-      const results = await executeQuery<DlcMaritalStatus>(query, [statusName.trim()]);
-      
-      if (results.length > 0) {
-        return { statusSerial: results[0].status_serial, isDefault: false };
-      }
-      
-      // Return default value 1 and mark as default
-      return { statusSerial: 1, isDefault: true };
-    } catch (error) {
-      console.error('Marital status lookup failed:', error);
-      return { statusSerial: 1, isDefault: true };
-    }
-  }
+/**
+ * Applicant number following the PHP algorithm
+ * Format: YYYY + last6ofEpochTime + 4digitRandom
+ */
+function newApplicantNo(): string {
+  const currentYear = new Date().getFullYear().toString();
+  const epochTime = Math.floor(Date.now() / 1000).toString();
+  const last6Digits = epochTime.slice(-6);
+  const random4Digits = Math.floor(Math.random() * 9000 + 1000).toString();
 
-  /**
-   * Lookup session using PHP-style logic
-   * Matches sessionName exactly or CONCAT pattern
-   */
-  static async lookupSession(yearOfEntry: string): Promise<number | null> {
-    try {
-      const query = `
-        SELECT sessionID FROM dlc_session 
-        WHERE sessionName = ? 
-           OR CONCAT(sessionName, '/', CAST(CAST(sessionName AS UNSIGNED) + 1 AS CHAR)) = ?
-      `;
-      const results = await executeQuery<DlcSession>(query, [yearOfEntry, yearOfEntry]);
-      
-      return results.length > 0 ? results[0].sessionID : null;
-    } catch (error) {
-      console.error('Session lookup failed:', error);
-      return null;
-    }
-  }
+  return currentYear + last6Digits + random4Digits;
+}
 
-  /**
-   * Lookup course of study by department name (case-insensitive)
-   * Uses Department column, fallback to Programme if Department empty
-   */
-  static async lookupCourseOfStudy(department: string, programme?: string): Promise<number | null> {
-    try {
-      // Use department first, fallback to programme if department is empty
-      const searchTerm = department?.trim() || programme?.trim();
-      if (!searchTerm) {
-        return null;
-      }
-
-      const query = 'SELECT serialid FROM dlc_course_of_study WHERE LOWER(course_of_study) = LOWER(?)';
-      const results = await executeQuery<DlcCourseOfStudy>(query, [searchTerm]);
-      
-      return results.length > 0 ? results[0].serialid : null;
-    } catch (error) {
-      console.error('Course of study lookup failed:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Lookup state by name (case-insensitive)
-   */
-  static async lookupState(stateName: string): Promise<number | null> {
-    try {
-      if (!stateName?.trim()) {
-        return null;
-      }
-
-      const query = 'SELECT state_id FROM dlc_state WHERE LOWER(state_name) = LOWER(?)';
-      const results = await executeQuery<DlcState>(query, [stateName.trim()]);
-      
-      return results.length > 0 ? results[0].state_id : null;
-    } catch (error) {
-      console.error('State lookup failed:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Lookup LGA by name and state ID
-   * If state not found, attempt name-only lookup as fallback
-   */
-  static async lookupLga(lgaName: string, stateId?: number | null): Promise<{ lgaId: number | null; usedFallback: boolean }> {
-    try {
-      if (!lgaName?.trim()) {
-        return { lgaId: null, usedFallback: false };
-      }
-
-      // First try with state verification if state ID available
-      if (stateId) {
-        const queryWithState = 'SELECT lga_id FROM dlc_lga WHERE LOWER(lga_name) = LOWER(?) AND state_id = ?';
-        const resultsWithState = await executeQuery<DlcLga>(queryWithState, [lgaName.trim(), stateId]);
-        
-        if (resultsWithState.length > 0) {
-          return { lgaId: resultsWithState[0].lga_id, usedFallback: false };
-        }
-      }
-
-      // Fallback: try name-only lookup
-      const queryNameOnly = 'SELECT lga_id FROM dlc_lga WHERE LOWER(lga_name) = LOWER(?) LIMIT 1';
-      const resultsNameOnly = await executeQuery<DlcLga>(queryNameOnly, [lgaName.trim()]);
-      
-      if (resultsNameOnly.length > 0) {
-        return { lgaId: resultsNameOnly[0].lga_id, usedFallback: true };
-      }
-
-      return { lgaId: null, usedFallback: false };
-    } catch (error) {
-      console.error('LGA lookup failed:', error);
-      return { lgaId: null, usedFallback: false };
-    }
-  }
+export class DatabaseLookups {
 
   /**
-   * Check for duplicate matric number
+   * Generate `count` distinct applicant numbers not yet used by any student
+   * Candidates are checked against both tables in one query each, and only clashing ones are replaced
    */
-  static async checkDuplicateMatric(matricNo: string): Promise<boolean> {
-    try {
-      const query = 'SELECT matric_no FROM dlc_student_id WHERE matric_no = ?';
-      const results = await executeQuery(query, [matricNo.trim()]);
-      
-      return results.length > 0;
-    } catch (error) {
-      console.error('Duplicate matric check failed:', error);
-      return false; // Assume no duplicate on error to avoid blocking inserts
-    }
-  }
+  static async generateApplicantNos(count: number, maxRetries: number = 20): Promise<string[]> {
+    const accepted = new Set<string>();
 
-  /**
-   * Generate unique applicant number following PHP algorithm
-   * Format: YYYY + last6ofEpochTime + 4digitRandom
-   */
-  static async generateApplicantNo(maxRetries: number = 20): Promise<string> {
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
+    for (let attempt = 0; attempt < maxRetries && accepted.size < count; attempt++) {
       try {
-        const currentYear = new Date().getFullYear().toString();
-        const epochTime = Math.floor(Date.now() / 1000).toString();
-        const last6Digits = epochTime.slice(-6);
-        const random4Digits = Math.floor(Math.random() * 9000 + 1000).toString();
-        
-        const applicantNo = currentYear + last6Digits + random4Digits;
-
-        // Check uniqueness in both tables
-        const queries = [
-          'SELECT applicantNo FROM dlc_student WHERE applicantNo = ?',
-          'SELECT applicant_no FROM dlc_student_id WHERE applicant_no = ?'
-        ];
-
-        let isUnique = true;
-        for (const query of queries) {
-          const results = await executeQuery(query, [applicantNo]);
-          if (results.length > 0) {
-            isUnique = false;
-            break;
+        // Only 9000 numbers exist per second, so stop drawing once they run short and retry
+        const candidates = new Set<string>();
+        const needed = count - accepted.size;
+        for (let draw = 0; draw < needed * 10 && candidates.size < needed; draw++) {
+          const candidate = newApplicantNo();
+          if (!accepted.has(candidate)) {
+            candidates.add(candidate);
           }
         }
 
-        if (isUnique) {
-          return applicantNo;
+        const values = Array.from(candidates);
+        const placeholders = values.map(() => '?').join(', ');
+        const [students, studentIds] = await Promise.all([
+          executeQuery<{ applicantNo: string }>(`SELECT applicantNo FROM dlc_student WHERE applicantNo IN (${placeholders})`, values),
+          executeQuery<{ applicant_no: string }>(`SELECT applicant_no FROM dlc_student_id WHERE applicant_no IN (${placeholders})`, values)
+        ]);
+
+        const taken = new Set([
+          ...students.map(row => row.applicantNo),
+          ...studentIds.map(row => row.applicant_no)
+        ]);
+        for (const candidate of values) {
+          if (!taken.has(candidate)) {
+            accepted.add(candidate);
+          }
         }
       } catch (error) {
         console.error(`Applicant number generation attempt ${attempt + 1} failed:`, error);
       }
     }
 
-    throw new Error(`Failed to generate unique applicant number after ${maxRetries} attempts`);
+    if (accepted.size < count) {
+      throw new Error(`Failed to generate ${count} unique applicant numbers after ${maxRetries} attempts`);
+    }
+
+    return Array.from(accepted);
   }
-}
\ No newline at end of file
+}
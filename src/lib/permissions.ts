@@ -0,0 +1,38 @@
+import type { StaffRole } from './types';
+
+// Actions a route or UI control can require; roles are granted sets of these
+export type Permission =
+  | 'upload:commit' // Upload a file that writes students
+  | 'upload:dry-run' // Preview, validate or dry-run a file without keeping changes
+  | 'jobs:view' // Job history, summaries, failed rows and change reports
+  | 'jobs:all' // Jobs started by other users; without it users only see and act on their own
+  | 'jobs:cancel'
+  | 'jobs:resume'
+  | 'jobs:resubmit' // Re-submit corrected failed rows as a child job
+  | 'jobs:rollback'
+  | 'mappings:manage' // Create column mapping profiles
+  | 'aliases:create'
+  | 'aliases:delete'
+  | 'lookups:reload' // Invalidate cached reference tables
+  | 'users:manage'; // Staff accounts, roles and passwords
+
+export const PERMISSIONS: Permission[] = [
+  'upload:commit', 'upload:dry-run', 'jobs:view', 'jobs:all', 'jobs:cancel', 'jobs:resume', 'jobs:resubmit',
+  'jobs:rollback', 'mappings:manage', 'aliases:create', 'aliases:delete', 'lookups:reload', 'users:manage'
+];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  staff: [
+    'upload:commit', 'upload:dry-run', 'jobs:view', 'jobs:cancel', 'jobs:resume', 'jobs:resubmit',
+    'mappings:manage', 'aliases:create', 'lookups:reload'
+  ],
+  admin: PERMISSIONS
+};
+
+/**
+ * Whether a role is granted a permission; unknown roles are granted nothing
+ * Safe to import from client components, e.g. to hide actions the user cannot perform
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return !!role && (ROLE_PERMISSIONS[role as StaffRole]?.includes(permission) ?? false);
+}
@@ -0,0 +1,74 @@
+import { ProcessingErrorCause, ProcessingErrorCode } from './types';
+
+/**
+ * A row rejected by validation or a lookup, carrying the column and value at fault
+ */
+export class RowProcessingError extends Error {
+  readonly code: ProcessingErrorCode;
+  readonly field?: string;
+  readonly value?: string;
+
+  constructor(code: ProcessingErrorCode, message: string, field?: string, value?: string) {
+    super(message);
+    this.name = 'RowProcessingError';
+    this.code = code;
+    this.field = field;
+    this.value = value;
+  }
+}
+
+/**
+ * Several problems found in one row, reported together so they can all be corrected before re-submitting
+ */
+export class RowValidationError extends Error {
+  readonly causes: RowProcessingError[];
+
+  constructor(causes: RowProcessingError[]) {
+    super(causes.map(cause => cause.message).join('; '));
+    this.name = 'RowValidationError';
+    this.causes = causes;
+  }
+}
+
+// MySQL errors raised by constraints on dlc_student / dlc_student_id
+const CONSTRAINT_ERRNOS = new Set([
+  1048, // ER_BAD_NULL_ERROR
+  1062, // ER_DUP_ENTRY
+  1292, // ER_TRUNCATED_WRONG_VALUE
+  1366, // ER_TRUNCATED_WRONG_VALUE_FOR_FIELD
+  1406, // ER_DATA_TOO_LONG
+  1451, // ER_ROW_IS_REFERENCED_2
+  1452 // ER_NO_REFERENCED_ROW_2
+]);
+
+/**
+ * Classify any error thrown while processing a row
+ * Database constraint violations are recognised by errno; the key or column is taken from the message
+ */
+export function classifyProcessingError(error: Error): ProcessingErrorCause & { causes?: ProcessingErrorCause[] } {
+  if (error instanceof RowValidationError) {
+    const causes = error.causes.map(cause => ({ code: cause.code, field: cause.field, value: cause.value }));
+    return { ...causes[0], causes };
+  }
+  if (error instanceof RowProcessingError) {
+    return { code: error.code, field: error.field, value: error.value };
+  }
+
+  const errno = (error as Error & { errno?: number }).errno;
+  if (errno !== undefined && CONSTRAINT_ERRNOS.has(errno)) {
+    const duplicate = error.message.match(/Duplicate entry '(.*)' for key '(?:[^.']*\.)?([^']+)'/);
+    if (duplicate) {
+      return { code: 'DB_CONSTRAINT', field: duplicate[2], value: duplicate[1] };
+    }
+
+    const column = error.message.match(/column '([^']+)'/i);
+    return { code: 'DB_CONSTRAINT', field: column?.[1] };
+  }
+
+  return { code: 'PROCESSING_ERROR' };
+}
+
+export interface ErrorGroups {
+  byCode: Array<{ code: ProcessingErrorCode; count: number }>;
+  byValue: Array<{ code: ProcessingErrorCode; field: string | null; value: string | null; count: number }>;
+}
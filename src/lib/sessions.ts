@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import { executeQuery } from './database';
+import { StaffSession } from './types';
+
+export interface IssuedSession {
+  sessionId: number;
+  userId: number;
+  refreshToken: string;
+}
+
+// A refresh that lost a race with another request holding the same token, which already rotated it
+export interface RacedRotation {
+  raced: true;
+}
+
+// Sessions end after this many days without a refresh
+export const SESSION_IDLE_DAYS = parseInt(process.env.SESSION_IDLE_DAYS || '7') || 7;
+
+// How long the token replaced by a rotation is still recognised, so two tabs refreshing
+// at the same moment are not mistaken for a stolen token
+const ROTATION_GRACE_SECONDS = 30;
+
+// Refresh tokens are `<session id>.<secret>`; only a hash of the secret is stored
+function newSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function parseRefreshToken(refreshToken: string): { sessionId: number; secret: string } | null {
+  const [id, secret] = typeof refreshToken === 'string' ? refreshToken.split('.') : [];
+  const sessionId = parseInt(id || '');
+  return sessionId && secret ? { sessionId, secret } : null;
+}
+
+function affectedRows(result: unknown): number {
+  return (result as { affectedRows: number }).affectedRows;
+}
+
+export class SessionService {
+
+  /**
+   * Start a session at login
+   */
+  static async createSession(userId: number, userAgent?: string | null): Promise<IssuedSession> {
+    const secret = newSecret();
+    const result = await executeQuery(
+      `INSERT INTO staff_sessions (user_id, refresh_token_hash, user_agent, expires_at)
+       VALUES (?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+      [userId, hashSecret(secret), userAgent?.substring(0, 255) ?? null, SESSION_IDLE_DAYS]
+    );
+
+    const sessionId = (result as unknown as { insertId: number }).insertId;
+    return { sessionId, userId, refreshToken: `${sessionId}.${secret}` };
+  }
+
+  /**
+   * Exchange a refresh token for a new one, extending the session
+   * Presenting a token that was already rotated revokes the session, since it may have been stolen,
+   * unless it is the one replaced within the last ROTATION_GRACE_SECONDS, which reports the race instead
+   */
+  static async rotate(refreshToken: string): Promise<IssuedSession | RacedRotation | null> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return null;
+    }
+
+    const sessions = await executeQuery<StaffSession & { in_grace: number }>(
+      `SELECT id, user_id, refresh_token_hash, previous_token_hash,
+              rotated_at > DATE_SUB(NOW(), INTERVAL ? SECOND) AS in_grace
+       FROM staff_sessions WHERE id = ? AND revoked_at IS NULL AND expires_at > NOW()`,
+      [ROTATION_GRACE_SECONDS, parsed.sessionId]
+    );
+    const session = sessions[0];
+    if (!session) {
+      return null;
+    }
+
+    const presentedHash = hashSecret(parsed.secret);
+    if (presentedHash === session.previous_token_hash && session.in_grace) {
+      console.log(`🔁 Refresh of session ${session.id} raced a rotation moments ago; not issuing another token`);
+      return { raced: true };
+    }
+    if (presentedHash !== session.refresh_token_hash) {
+      console.warn(`⚠️ Reused refresh token for session ${session.id}, revoking it`);
+      await this.revokeSession(session.id);
+      return null;
+    }
+
+    // MySQL applies SET assignments left to right, so the old hash is saved before it is replaced
+    const secret = newSecret();
+    const result = await executeQuery(
+      `UPDATE staff_sessions
+       SET previous_token_hash = refresh_token_hash, refresh_token_hash = ?, rotated_at = NOW(),
+           last_used_at = NOW(), expires_at = DATE_ADD(NOW(), INTERVAL ? DAY)
+       WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL`,
+      [hashSecret(secret), SESSION_IDLE_DAYS, session.id, presentedHash]
+    );
+
+    // A concurrent refresh with the same token got there first
+    if (affectedRows(result) !== 1) {
+      return { raced: true };
+    }
+
+    return { sessionId: session.id, userId: session.user_id, refreshToken: `${session.id}.${secret}` };
+  }
+
+  /**
+   * Revoke the session a refresh token belongs to (logout)
+   * @returns whether a live session was revoked
+   */
+  static async revokeByRefreshToken(refreshToken: string): Promise<boolean> {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      return false;
+    }
+
+    const result = await executeQuery(
+      'UPDATE staff_sessions SET revoked_at = NOW() WHERE id = ? AND refresh_token_hash = ? AND revoked_at IS NULL',
+      [parsed.sessionId, hashSecret(parsed.secret)]
+    );
+    return affectedRows(result) > 0;
+  }
+
+  static async revokeSession(sessionId: number): Promise<void> {
+    await executeQuery('UPDATE staff_sessions SET revoked_at = NOW() WHERE id = ? AND revoked_at IS NULL', [sessionId]);
+  }
+
+  /**
+   * Sign a user out everywhere
+   * @returns the number of sessions revoked
+   */
+  static async revokeUserSessions(userId: number): Promise<number> {
+    const result = await executeQuery(
+      'UPDATE staff_sessions SET revoked_at = NOW() WHERE user_id = ? AND revoked_at IS NULL AND expires_at > NOW()',
+      [userId]
+    );
+    return affectedRows(result);
+  }
+}
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { SpreadsheetCellValue } from './types';
+
+export const CSV_EXTENSIONS = ['.csv'];
+export const WORKBOOK_EXTENSIONS = ['.xlsx', '.ods'];
+
+export interface WorksheetRows {
+  sheetName: string;
+  headers: string[];
+  totalRows: number; // Data rows, excluding the header row
+  rows: Generator<{ rowNumber: number; data: Record<string, SpreadsheetCellValue> }>;
+}
+
+export class SpreadsheetReader {
+
+  /**
+   * Whether a file name has an extension the upload pipeline accepts
+   */
+  static isSupportedFile(fileName: string): boolean {
+    const extension = path.extname(fileName).toLowerCase();
+    return CSV_EXTENSIONS.includes(extension) || WORKBOOK_EXTENSIONS.includes(extension);
+  }
+
+  /**
+   * Whether a file is an Excel/ODS workbook rather than CSV
+   */
+  static isWorkbookFile(fileName: string): boolean {
+    return WORKBOOK_EXTENSIONS.includes(path.extname(fileName).toLowerCase());
+  }
+
+  /**
+   * Parse a workbook from a file path or an in-memory buffer
+   * Date cells are kept as Date objects instead of serial numbers
+   */
+  static readWorkbook(source: string | Buffer): XLSX.WorkBook {
+    const buffer = typeof source === 'string' ? fs.readFileSync(source) : source;
+    return XLSX.read(buffer, { type: 'buffer', cellDates: true });
+  }
+
+  /**
+   * Open a sheet (the first one when no name is given) and iterate its rows
+   * The first non-empty row is treated as the header row
+   */
+  static openSheet(workbook: XLSX.WorkBook, sheetName?: string): WorksheetRows {
+    const name = sheetName || workbook.SheetNames[0];
+    const sheet = name ? workbook.Sheets[name] : undefined;
+    if (!sheet) {
+      throw new Error(`Sheet not found: ${sheetName}`);
+    }
+
+    if (!sheet['!ref']) {
+      return { sheetName: name, headers: [], totalRows: 0, rows: (function* () {})() };
+    }
+
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+
+    // Find the header row, skipping leading blank rows
+    let headerRow = range.s.r;
+    while (headerRow <= range.e.r && this.isBlankRow(sheet, headerRow, range)) {
+      headerRow++;
+    }
+
+    const columns: Array<{ index: number; header: string }> = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const header = this.cellValue(sheet[XLSX.utils.encode_cell({ r: headerRow, c })]);
+      const text = header instanceof Date ? header.toISOString() : header.trim();
+      if (text) {
+        columns.push({ index: c, header: text });
+      }
+    }
+
+    let totalRows = 0;
+    for (let r = headerRow + 1; r <= range.e.r; r++) {
+      if (!this.isBlankRow(sheet, r, range)) {
+        totalRows++;
+      }
+    }
+
+    const worksheet = sheet;
+    function* rows() {
+      for (let r = headerRow + 1; r <= range.e.r; r++) {
+        if (SpreadsheetReader.isBlankRow(worksheet, r, range)) {
+          continue;
+        }
+
+        const data: Record<string, SpreadsheetCellValue> = {};
+        for (const column of columns) {
+          data[column.header] = SpreadsheetReader.cellValue(worksheet[XLSX.utils.encode_cell({ r, c: column.index })]);
+        }
+
+        // Spreadsheet row numbers are 1-based
+        yield { rowNumber: r + 1, data };
+      }
+    }
+
+    return { sheetName: name, headers: columns.map(column => column.header), totalRows, rows: rows() };
+  }
+
+  /**
+   * Convert a cell to the value CsvProcessor expects
+   * Dates stay Date objects; numbers use their displayed text so formatted
+   * values such as phone numbers with leading zeros are not lost
+   */
+  private static cellValue(cell: XLSX.CellObject | undefined): SpreadsheetCellValue {
+    if (!cell || cell.v === undefined || cell.v === null) {
+      return '';
+    }
+
+    if (cell.t === 'd' && cell.v instanceof Date) {
+      return cell.v;
+    }
+
+    if (cell.t === 'n') {
+      return cell.w !== undefined ? cell.w.trim() : String(cell.v);
+    }
+
+    if (cell.t === 'e') {
+      return '';
+    }
+
+    return String(cell.v).trim();
+  }
+
+  private static isBlankRow(sheet: XLSX.WorkSheet, r: number, range: XLSX.Range): boolean {
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const value = this.cellValue(sheet[XLSX.utils.encode_cell({ r, c })]);
+      if (value instanceof Date || value !== '') {
+        return false;
+      }
+    }
+    return true;
+  }
+}
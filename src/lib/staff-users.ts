@@ -0,0 +1,215 @@
+import { AuthService } from './auth';
+import { executeQuery } from './database';
+import { SessionService } from './sessions';
+import { StaffRole, StaffUser } from './types';
+
+export interface StaffUserSummary {
+  id: number;
+  email: string;
+  name: string;
+  role: StaffRole;
+  active: boolean;
+  lastLogin: Date | null;
+  activeSessions: number; // Sessions that have not been revoked or expired
+  createdAt: Date;
+}
+
+export interface NewStaffUser {
+  email: string;
+  name: string;
+  password: string;
+  role?: StaffRole;
+}
+
+export interface StaffUserChanges {
+  email?: string;
+  name?: string;
+  role?: StaffRole;
+  active?: boolean;
+}
+
+export interface StaffUserResult {
+  success: boolean;
+  user?: StaffUserSummary;
+  message?: string;
+}
+
+export const STAFF_ROLES: StaffRole[] = ['staff', 'admin'];
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const SUMMARY_COLUMNS = `
+  id, email, name, role, active, last_login, created_at,
+  (SELECT COUNT(*) FROM staff_sessions s
+   WHERE s.user_id = staff_users.id AND s.revoked_at IS NULL AND s.expires_at > NOW()) AS active_sessions
+`;
+
+type StaffUserRow = StaffUser & { active_sessions: number };
+
+function toSummary(user: StaffUserRow): StaffUserSummary {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    active: !!user.active,
+    lastLogin: user.last_login,
+    activeSessions: Number(user.active_sessions),
+    createdAt: user.created_at
+  };
+}
+
+export class StaffUserService {
+
+  /**
+   * All staff accounts, active ones first
+   */
+  static async listUsers(): Promise<StaffUserSummary[]> {
+    const users = await executeQuery<StaffUserRow>(
+      `SELECT ${SUMMARY_COLUMNS} FROM staff_users ORDER BY active DESC, name`
+    );
+    return users.map(toSummary);
+  }
+
+  static async getUser(id: number): Promise<StaffUserSummary | null> {
+    const users = await executeQuery<StaffUserRow>(
+      `SELECT ${SUMMARY_COLUMNS} FROM staff_users WHERE id = ?`,
+      [id]
+    );
+    return users.length > 0 ? toSummary(users[0]) : null;
+  }
+
+  /**
+   * Create an active staff account
+   */
+  static async createUser(input: NewStaffUser): Promise<StaffUserResult> {
+    const role = input.role ?? 'staff';
+    const problem = this.validateProfile(input.email, input.name, role) ?? this.validatePassword(input.password);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    if (await this.emailInUse(input.email)) {
+      return { success: false, message: `${input.email.trim()} already has an account` };
+    }
+
+    const id = await AuthService.createUser(input.email, input.password, input.name, role);
+    if (!id) {
+      return { success: false, message: 'Failed to create user' };
+    }
+
+    console.log(`👤 Created ${role} account ${input.email.trim().toLowerCase()}`);
+    return { success: true, user: await this.getUser(id) ?? undefined };
+  }
+
+  /**
+   * Edit a staff account's details, role or active flag
+   * Admins cannot demote or deactivate themselves, and the last active admin cannot be removed
+   * Deactivating an account signs it out everywhere
+   */
+  static async updateUser(id: number, changes: StaffUserChanges, actingUserId: number): Promise<StaffUserResult> {
+    const existing = await this.getUser(id);
+    if (!existing) {
+      return { success: false, message: 'User not found' };
+    }
+
+    const updated = {
+      email: changes.email ?? existing.email,
+      name: changes.name ?? existing.name,
+      role: changes.role ?? existing.role,
+      active: changes.active ?? existing.active
+    };
+
+    const problem = this.validateProfile(updated.email, updated.name, updated.role);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    if (updated.email.trim().toLowerCase() !== existing.email.toLowerCase() && await this.emailInUse(updated.email, id)) {
+      return { success: false, message: `${updated.email.trim()} already has an account` };
+    }
+
+    const losesAdmin = existing.role === 'admin' && existing.active && (updated.role !== 'admin' || !updated.active);
+    if (losesAdmin) {
+      if (id === actingUserId) {
+        return { success: false, message: 'You cannot remove your own administrator access' };
+      }
+      if (await this.countActiveAdmins() <= 1) {
+        return { success: false, message: 'At least one active administrator is required' };
+      }
+    }
+
+    await executeQuery(
+      'UPDATE staff_users SET email = ?, name = ?, role = ?, active = ? WHERE id = ?',
+      [updated.email.trim().toLowerCase(), updated.name.trim(), updated.role, updated.active ? 1 : 0, id]
+    );
+
+    if (existing.active && !updated.active) {
+      await SessionService.revokeUserSessions(id);
+    }
+
+    console.log(`👤 Updated account ${id}: ${JSON.stringify(changes)}`);
+    return { success: true, user: await this.getUser(id) ?? undefined };
+  }
+
+  /**
+   * Set a new password chosen by an admin and sign the account out everywhere
+   */
+  static async resetPassword(id: number, password: string): Promise<StaffUserResult> {
+    const problem = this.validatePassword(password);
+    if (problem) {
+      return { success: false, message: problem };
+    }
+
+    const existing = await this.getUser(id);
+    if (!existing) {
+      return { success: false, message: 'User not found' };
+    }
+
+    await executeQuery(
+      'UPDATE staff_users SET password_hash = ? WHERE id = ?',
+      [await AuthService.hashPassword(password), id]
+    );
+    await SessionService.revokeUserSessions(id);
+
+    console.log(`🔑 Password reset for account ${id}`);
+    return { success: true, user: await this.getUser(id) ?? undefined };
+  }
+
+  private static validateProfile(email: string, name: string, role: string): string | null {
+    if (!email?.trim() || !EMAIL_PATTERN.test(email.trim())) {
+      return 'A valid email address is required';
+    }
+    if (!name?.trim()) {
+      return 'Name is required';
+    }
+    if (!STAFF_ROLES.includes(role as StaffRole)) {
+      return `Role must be one of: ${STAFF_ROLES.join(', ')}`;
+    }
+    return null;
+  }
+
+  private static validatePassword(password: string): string | null {
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  private static async emailInUse(email: string, exceptId?: number): Promise<boolean> {
+    const users = await executeQuery<StaffUser>(
+      'SELECT id FROM staff_users WHERE email = ? AND id <> ?',
+      [email.trim().toLowerCase(), exceptId ?? 0]
+    );
+    return users.length > 0;
+  }
+
+  private static async countActiveAdmins(): Promise<number> {
+    const rows = await executeQuery<{ count: number }>(
+      "SELECT COUNT(*) AS count FROM staff_users WHERE role = 'admin' AND active = 1"
+    );
+    return Number(rows[0]?.count ?? 0);
+  }
+}
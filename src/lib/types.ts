@@ -56,6 +56,9 @@ export interface DlcLga {
   state_id: number;
 }
 
+// Workbook cells keep real dates; everything else is read as text
+export type SpreadsheetCellValue = string | Date;
+
 // CSV input mapping interface
 export interface CsvStudentRecord {
   'S/N'?: string;
@@ -65,7 +68,7 @@ export interface CsvStudentRecord {
   'First Name': string;
   'Othernames'?: string;
   'Gender': string;
-  'DoB': string;
+  'DoB': SpreadsheetCellValue; // Date when read from a typed Excel/ODS date cell
   'Marital Status'?: string;
   'Religion'?: string;
   'Phone'?: string;
@@ -100,23 +103,162 @@ export interface ProcessingResult {
   jobId: string;
 }
 
+export type ProcessingErrorCode =
+  | 'MISSING_FIELD'
+  | 'INVALID_GENDER'
+  | 'INVALID_DATE'
+  | 'INVALID_EMAIL'
+  | 'INVALID_PHONE'
+  | 'UNKNOWN_SESSION'
+  | 'UNKNOWN_COURSE'
+  | 'DB_CONSTRAINT'
+  | 'PROCESSING_ERROR';
+
+export interface ProcessingErrorCause {
+  code: ProcessingErrorCode;
+  field?: string;
+  value?: string;
+}
+
 export interface ProcessingError {
   rowNumber: number;
   originalRow: CsvStudentRecord;
   reason: string;
+  code: ProcessingErrorCode;
   field?: string;
+  value?: string; // Offending value, when there is one
+  causes?: ProcessingErrorCause[]; // Every problem found in the row when there was more than one; the first is code/field/value
 }
 
 export interface JobProgress {
   jobId: string;
   progress: number; // percentage
-  totalRecords: number;
+  totalRecords: number; // Estimated from the bytes read while a CSV streams, exact once complete
   processedRecords: number;
-  insertedRecords: number;
+  insertedRecords: number; // New students
+  updatedRecords: number; // Existing students with at least one empty field filled
+  unchangedRecords: number; // Existing students with nothing to update
+  duplicateSkippedRecords: number; // Repeated matric numbers within a batch
   failedRecordsCount: number;
   currentRow: number;
   message: string;
   isComplete: boolean;
   startTime: Date;
   endTime?: Date;
-}
\ No newline at end of file
+}
+
+export interface JobCheckpoint {
+  lastCommittedRow: number; // CSV row number of the last row committed or recorded as failed
+  progress: JobProgress; // Progress counters as of that row
+}
+
+// Upload job persistence (upload_jobs table)
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'interrupted' | 'rolled_back';
+
+export interface UploadJob {
+  id: string;
+  user_id: number | null;
+  parent_job_id: string | null;
+  file_name: string | null;
+  file_path: string | null;
+  options: Record<string, unknown> | string; // JSON column, returned as string by some drivers
+  status: JobStatus;
+  progress: JobProgress | string | null; // Latest JobProgress snapshot
+  failed_csv_path: string | null;
+  last_committed_row: number;
+  checkpoint: JobProgress | string | null; // Progress snapshot matching last_committed_row
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+export interface UploadJobError {
+  id: number;
+  job_id: string;
+  row_no: number;
+  matric_no: string | null;
+  reason: string;
+  code: ProcessingErrorCode;
+  field: string | null;
+  value: string | null;
+  row_data: CsvStudentRecord | string | null; // JSON column, returned as string by some drivers
+  created_at: Date;
+}
+
+// Column mapping profiles (column_mapping_profiles / column_mapping_entries tables)
+export interface ColumnMappingProfile {
+  id: number;
+  name: string;
+  description: string | null;
+  created_by: number | null;
+  created_at: Date;
+}
+
+export interface ColumnMappingEntry {
+  id?: number;
+  profile_id: number;
+  source_header: string;
+  canonical_field: keyof CsvStudentRecord;
+}
+
+// Lookup tables an alias can point into (lookup_aliases table)
+export type LookupType = 'marital_status' | 'course_of_study' | 'state' | 'lga' | 'session';
+
+export interface LookupAlias {
+  id: number;
+  lookup_type: LookupType;
+  alias: string;
+  target_id: number;
+  created_by: number | null;
+  created_at: Date;
+}
+
+// Per-row change journal (upload_change_log table)
+export type ChangeAction = 'insert' | 'update';
+
+export interface FieldChange {
+  table: 'dlc_student' | 'dlc_student_id';
+  field: string;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface UploadChangeLogEntry {
+  id: number;
+  job_id: string;
+  user_id: number | null;
+  matric_no: string;
+  serial_id: number;
+  action: ChangeAction;
+  changes: FieldChange[] | string; // JSON column, returned as string by some drivers
+  rolled_back_at: Date | null;
+  created_at: Date;
+}
+
+// Staff accounts (staff_users table)
+export type StaffRole = 'staff' | 'admin';
+
+export interface StaffUser {
+  id: number;
+  email: string;
+  password_hash: string;
+  name: string;
+  role: StaffRole;
+  active: number; // tinyint(1)
+  last_login: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Signed-in staff sessions (staff_sessions table)
+export interface StaffSession {
+  id: number;
+  user_id: number;
+  refresh_token_hash: string;
+  previous_token_hash: string | null;
+  rotated_at: Date | null;
+  user_agent: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  expires_at: Date;
+  revoked_at: Date | null;
+}
@@ -0,0 +1,166 @@
+import { DlcStudent, DlcStudentId, FieldChange } from './types';
+
+export type UpdatePolicyMode = 'skip_existing' | 'fill_empty' | 'overwrite';
+
+// Columns of an existing student an upload may change
+export type UpdatableField =
+  | 'lastName' | 'firstName' | 'middleName' | 'gender' | 'date_of_birth' | 'maritalStatus'
+  | 'religion' | 'phoneNo' | 'emailAddress' | 'application_session' | 'course_of_study'
+  | 'country' | 'studyMode' | 'password' | 'profession' | 'lga_origin' | 'stud_email';
+
+export interface UpdatePolicy {
+  mode: UpdatePolicyMode;
+  fields: UpdatableField[];
+}
+
+export interface UpdatePolicyDefinition {
+  mode: UpdatePolicyMode;
+  label: string;
+  allowedFields: UpdatableField[]; // Fields a job using this policy may select
+  defaultFields: UpdatableField[];
+}
+
+// Existing column values, as selected by CsvProcessor.upsertRecord
+export type ExistingStudentValues = Record<UpdatableField, unknown>;
+
+export const UPDATABLE_FIELDS: Record<UpdatableField, FieldChange['table']> = {
+  lastName: 'dlc_student',
+  firstName: 'dlc_student',
+  middleName: 'dlc_student',
+  gender: 'dlc_student',
+  date_of_birth: 'dlc_student',
+  maritalStatus: 'dlc_student',
+  religion: 'dlc_student',
+  phoneNo: 'dlc_student',
+  emailAddress: 'dlc_student',
+  application_session: 'dlc_student',
+  course_of_study: 'dlc_student',
+  country: 'dlc_student',
+  studyMode: 'dlc_student',
+  password: 'dlc_student',
+  profession: 'dlc_student',
+  lga_origin: 'dlc_student',
+  stud_email: 'dlc_student_id'
+};
+
+const ALL_FIELDS = Object.keys(UPDATABLE_FIELDS) as UpdatableField[];
+
+export const UPDATE_POLICIES: Record<UpdatePolicyMode, UpdatePolicyDefinition> = {
+  skip_existing: {
+    mode: 'skip_existing',
+    label: 'Skip existing students',
+    allowedFields: [],
+    defaultFields: []
+  },
+  fill_empty: {
+    mode: 'fill_empty',
+    label: 'Fill empty fields only',
+    allowedFields: ALL_FIELDS,
+    defaultFields: ['emailAddress', 'studyMode', 'password', 'stud_email']
+  },
+  overwrite: {
+    mode: 'overwrite',
+    label: 'Overwrite selected fields',
+    // Passwords are never reset from the file for students who already have one
+    allowedFields: ALL_FIELDS.filter(field => field !== 'password'),
+    defaultFields: []
+  }
+};
+
+export const DEFAULT_UPDATE_POLICY: UpdatePolicy = {
+  mode: 'fill_empty',
+  fields: UPDATE_POLICIES.fill_empty.defaultFields
+};
+
+export class UpdatePolicyService {
+
+  /**
+   * Validate a requested policy against its allowlist
+   * An omitted field list falls back to the policy's default fields
+   */
+  static resolve(mode?: string | null, fields?: string[] | null): UpdatePolicy {
+    if (!mode) {
+      return DEFAULT_UPDATE_POLICY;
+    }
+
+    const definition = UPDATE_POLICIES[mode as UpdatePolicyMode];
+    if (!definition) {
+      throw new Error(`Unknown update policy: ${mode}`);
+    }
+
+    const selected = fields ? [...new Set(fields.map(field => field.trim()).filter(Boolean))] : definition.defaultFields;
+    const disallowed = selected.filter(field => !definition.allowedFields.includes(field as UpdatableField));
+    if (disallowed.length > 0) {
+      throw new Error(`Fields not allowed for policy "${definition.label}": ${disallowed.join(', ')}`);
+    }
+
+    if (definition.mode === 'overwrite' && selected.length === 0) {
+      throw new Error('Select at least one field to overwrite');
+    }
+
+    return { mode: definition.mode, fields: selected as UpdatableField[] };
+  }
+
+  /**
+   * Work out which fields of an existing student the policy changes
+   * Empty values in the file never replace stored values
+   */
+  static planChanges(
+    policy: UpdatePolicy,
+    existing: ExistingStudentValues,
+    student: DlcStudent,
+    studentId: DlcStudentId
+  ): FieldChange[] {
+    if (policy.mode === 'skip_existing') {
+      return [];
+    }
+
+    const changes: FieldChange[] = [];
+    for (const field of policy.fields) {
+      const incoming = field === 'stud_email' ? studentId.stud_email : student[field];
+      if (incoming === undefined || incoming === null || String(incoming).trim() === '') {
+        continue;
+      }
+
+      const before = existing[field];
+      const isEmpty = normalizeValue(before) === '';
+      if (policy.mode === 'fill_empty' && !isEmpty) {
+        continue;
+      }
+
+      if (normalizeValue(before) === normalizeValue(incoming)) {
+        continue;
+      }
+
+      // A stored bcrypt hash never equals the new hash, so only empty passwords are replaced
+      if (field === 'password' && !isEmpty) {
+        continue;
+      }
+
+      changes.push({
+        table: UPDATABLE_FIELDS[field],
+        field,
+        before: before instanceof Date ? normalizeValue(before) : (before as string | number | null) ?? null,
+        after: incoming as string | number
+      });
+    }
+
+    return changes;
+  }
+}
+
+/**
+ * Comparable text form of a column value; DATE columns come back from mysql2 as Date objects
+ */
+export function normalizeValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    const year = value.getFullYear();
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+  }
+  return String(value).trim();
+}
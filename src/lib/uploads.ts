@@ -0,0 +1,37 @@
+import { writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+
+// Get the uploads directory - use system temp in production
+export function getUploadsDir(): string {
+  return process.env.UPLOAD_DIR || (process.env.NODE_ENV === 'production' ? '/tmp/uploads' : './uploads');
+}
+
+// Save an uploaded file to the uploads directory and return its path
+export async function saveUploadedFile(file: File): Promise<string> {
+  const bytes = await file.arrayBuffer();
+  return saveUploadContent(file.name, Buffer.from(bytes));
+}
+
+// Save generated file content (e.g. re-submitted rows) to the uploads directory and return its path
+export async function saveUploadContent(name: string, content: string | Buffer): Promise<string> {
+  const uploadsDir = getUploadsDir();
+  console.log('📁 Checking upload directory:', uploadsDir);
+
+  if (!existsSync(uploadsDir)) {
+    console.log('📁 Creating upload directory...');
+    await mkdir(uploadsDir, { recursive: true });
+    console.log('✅ Upload directory created');
+  }
+
+  // Save file
+  console.log('💾 Saving file...');
+  const fileName = `${Date.now()}_${path.basename(name)}`;
+  const filePath = path.join(uploadsDir, fileName);
+
+  console.log('💾 Writing file to:', filePath);
+  await writeFile(filePath, content);
+  console.log('✅ File saved successfully');
+
+  return filePath;
+}